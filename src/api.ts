@@ -0,0 +1,123 @@
+import * as vscode from 'vscode';
+import { PreviewManager } from './previewManager';
+import { TabTracker } from './tabTracker';
+import { ProviderRegistry } from './providerRegistry';
+import { OpenPreviewOptions, PreviewMode, PreviewProvider, TrackedPreview } from './types';
+
+export { OpenPreviewOptions, PreviewMode, PreviewProvider };
+
+/** Version of the API returned by activate(); bumped on breaking changes */
+export const API_VERSION = 1;
+
+/**
+ * A preview opened or closed alongside its source document
+ */
+export interface PreviewEvent {
+    /** URI of the source document */
+    uri: vscode.Uri;
+    /** Language ID of the source document */
+    languageId: string;
+    /** How the preview was opened */
+    mode: PreviewMode;
+}
+
+/**
+ * API exported to other extensions:
+ *
+ *     const api = vscode.extensions.getExtension('tp-build-dev.preview-markdown-files')?.exports;
+ *     if (api?.version === 1) { ... }
+ */
+export interface AutoPreviewApi {
+    readonly version: typeof API_VERSION;
+
+    /**
+     * Open the preview of a document, even if auto preview would skip it.
+     * Resolves to true if a preview is open afterwards.
+     */
+    openPreview(uri: vscode.Uri, options?: OpenPreviewOptions): Promise<boolean>;
+
+    /**
+     * Close the preview of a document. Resolves to true if one was closed.
+     */
+    closePreview(uri: vscode.Uri): Promise<boolean>;
+
+    /** Check if a preview of a document is open */
+    isPreviewOpen(uri: vscode.Uri): boolean;
+
+    /**
+     * Stop auto-opening previews for a document, or resume with `suppressed = false`.
+     * Previews opened with openPreview are not affected.
+     */
+    setSuppressed(uri: vscode.Uri, suppressed?: boolean): void;
+
+    /** Event fired when a preview is opened and paired with its source */
+    readonly onDidOpenPreview: vscode.Event<PreviewEvent>;
+
+    /** Event fired when a preview is closed or no longer shows its source */
+    readonly onDidClosePreview: vscode.Event<PreviewEvent>;
+
+    /**
+     * Register a preview provider for an additional language.
+     * The language must still be listed in `previewMarkdown.languages` to be auto-previewed.
+     * Dispose the result to unregister it.
+     */
+    registerPreviewProvider(provider: PreviewProvider): vscode.Disposable;
+}
+
+/**
+ * Implementation of the exported API, backed by PreviewManager and TabTracker
+ */
+export class ExtensionApi implements AutoPreviewApi, vscode.Disposable {
+    private _disposables: vscode.Disposable[] = [];
+
+    private _onDidOpenPreview = new vscode.EventEmitter<PreviewEvent>();
+    private _onDidClosePreview = new vscode.EventEmitter<PreviewEvent>();
+
+    readonly version = API_VERSION;
+    readonly onDidOpenPreview = this._onDidOpenPreview.event;
+    readonly onDidClosePreview = this._onDidClosePreview.event;
+
+    constructor(
+        private readonly previewManager: PreviewManager,
+        private readonly tabTracker: TabTracker,
+        private readonly providers: ProviderRegistry
+    ) {
+        this._disposables.push(
+            this._onDidOpenPreview,
+            this._onDidClosePreview,
+            this.tabTracker.onDidTrackPreview(tracked => this._onDidOpenPreview.fire(toPreviewEvent(tracked))),
+            this.tabTracker.onDidUntrackPreview(tracked => this._onDidClosePreview.fire(toPreviewEvent(tracked)))
+        );
+    }
+
+    openPreview(uri: vscode.Uri, options?: OpenPreviewOptions): Promise<boolean> {
+        return this.previewManager.openPreview(uri, options);
+    }
+
+    closePreview(uri: vscode.Uri): Promise<boolean> {
+        return this.previewManager.closePreview(uri, 'closed through the extension API');
+    }
+
+    isPreviewOpen(uri: vscode.Uri): boolean {
+        return this.previewManager.isPreviewOpen(uri);
+    }
+
+    setSuppressed(uri: vscode.Uri, suppressed: boolean = true): void {
+        this.previewManager.setSuppressed(uri, suppressed);
+    }
+
+    registerPreviewProvider(provider: PreviewProvider): vscode.Disposable {
+        return this.providers.register(provider);
+    }
+
+    dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * Public view of a tracked preview, without its tab
+ */
+function toPreviewEvent(tracked: TrackedPreview): PreviewEvent {
+    return { uri: tracked.sourceUri, languageId: tracked.languageId, mode: tracked.mode };
+}
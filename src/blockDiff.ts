@@ -0,0 +1,175 @@
+/**
+ * Kind of change for one block of a document
+ */
+export type BlockChangeKind = 'unchanged' | 'added' | 'removed' | 'changed';
+
+/**
+ * One block of the redline view, with its original and/or modified text
+ */
+export interface BlockChange {
+    kind: BlockChangeKind;
+    /** Block text in the original document (unchanged, removed, changed) */
+    original?: string;
+    /** Block text in the modified document (unchanged, added, changed) */
+    modified?: string;
+}
+
+/**
+ * Split a markup document into blocks separated by blank lines.
+ * Fenced code blocks and a leading front matter block are kept whole,
+ * even if they contain blank lines.
+ */
+export function splitBlocks(text: string): string[] {
+    const lines = text.split(/\r?\n/);
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let fence: string | undefined;
+    let inFrontMatter = lines[0] === '---';
+
+    const flush = (): void => {
+        if (current.length > 0) {
+            blocks.push(current.join('\n'));
+            current = [];
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (inFrontMatter) {
+            current.push(line);
+            if (i > 0 && (line === '---' || line === '...')) {
+                inFrontMatter = false;
+                flush();
+            }
+            continue;
+        }
+
+        const fenceMatch = /^\s*(`{3,}|~{3,})/.exec(line);
+        if (fenceMatch) {
+            if (!fence) {
+                fence = fenceMatch[1];
+            } else if (fenceMatch[1].startsWith(fence)) {
+                fence = undefined;
+            }
+        }
+
+        if (!fence && line.trim() === '') {
+            flush();
+        } else {
+            current.push(line);
+        }
+    }
+    flush();
+
+    return blocks;
+}
+
+/**
+ * Compute block-level changes between two documents.
+ * Uses a longest-common-subsequence match of whole blocks; a removed block
+ * directly followed by an added block is reported as a single change.
+ */
+export function diffBlocks(original: string[], modified: string[]): BlockChange[] {
+    // Strip the common prefix and suffix to keep the LCS table small
+    let start = 0;
+    while (start < original.length && start < modified.length && original[start] === modified[start]) {
+        start++;
+    }
+
+    let endOriginal = original.length;
+    let endModified = modified.length;
+    while (endOriginal > start && endModified > start && original[endOriginal - 1] === modified[endModified - 1]) {
+        endOriginal--;
+        endModified--;
+    }
+
+    const changes: BlockChange[] = original.slice(0, start).map(block => ({
+        kind: 'unchanged' as const,
+        original: block,
+        modified: block
+    }));
+
+    changes.push(...pairChanges(lcsDiff(
+        original.slice(start, endOriginal),
+        modified.slice(start, endModified)
+    )));
+
+    for (let i = endOriginal; i < original.length; i++) {
+        changes.push({ kind: 'unchanged', original: original[i], modified: original[i] });
+    }
+
+    return changes;
+}
+
+/**
+ * Diff two block lists with a longest-common-subsequence table
+ */
+function lcsDiff(a: string[], b: string[]): BlockChange[] {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const table = new Uint32Array(rows * cols);
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            table[i * cols + j] = a[i] === b[j]
+                ? table[(i + 1) * cols + j + 1] + 1
+                : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+        }
+    }
+
+    const changes: BlockChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            changes.push({ kind: 'unchanged', original: a[i], modified: b[j] });
+            i++;
+            j++;
+        } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+            changes.push({ kind: 'removed', original: a[i++] });
+        } else {
+            changes.push({ kind: 'added', modified: b[j++] });
+        }
+    }
+    while (i < a.length) {
+        changes.push({ kind: 'removed', original: a[i++] });
+    }
+    while (j < b.length) {
+        changes.push({ kind: 'added', modified: b[j++] });
+    }
+
+    return changes;
+}
+
+/**
+ * Merge runs of removed blocks followed by added blocks into changed blocks
+ */
+function pairChanges(changes: BlockChange[]): BlockChange[] {
+    const result: BlockChange[] = [];
+    let i = 0;
+
+    while (i < changes.length) {
+        if (changes[i].kind !== 'removed') {
+            result.push(changes[i++]);
+            continue;
+        }
+
+        const removed: BlockChange[] = [];
+        while (i < changes.length && changes[i].kind === 'removed') {
+            removed.push(changes[i++]);
+        }
+        const added: BlockChange[] = [];
+        while (i < changes.length && changes[i].kind === 'added') {
+            added.push(changes[i++]);
+        }
+
+        const paired = Math.min(removed.length, added.length);
+        for (let k = 0; k < paired; k++) {
+            result.push({ kind: 'changed', original: removed[k].original, modified: added[k].modified });
+        }
+        result.push(...removed.slice(paired), ...added.slice(paired));
+    }
+
+    return result;
+}
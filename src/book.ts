@@ -0,0 +1,428 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { logger } from './logger';
+import { PreviewManager } from './previewManager';
+import { ProviderRegistry } from './providerRegistry';
+import { ReaderHistory } from './readerHistory';
+import { uriBasename } from './uriUtils';
+
+/**
+ * A document of a folder read as a book
+ */
+export interface ChapterSource {
+    /** Path relative to the book folder, with forward slashes */
+    name: string;
+    /** Language of the document */
+    languageId: string;
+    /** Document text */
+    text: string;
+}
+
+// Front matter, AsciiDoc attributes and RST fields are only looked for near the top
+const HEAD_LINES = 60;
+
+// YAML front matter key: order: 3
+const FRONT_MATTER_ORDER = /^order\s*:\s*["']?(-?\d+(?:\.\d+)?)["']?\s*(?:#.*)?$/i;
+
+// AsciiDoc attribute or reStructuredText field: :order: 3
+const FIELD_ORDER = /^:order:\s*(-?\d+(?:\.\d+)?)\s*$/i;
+
+/**
+ * Check if a file is a GitBook-style table of contents, which is not a chapter itself
+ */
+export function isSummaryFile(name: string): boolean {
+    return /^summary\.[^.]+$/i.test(name);
+}
+
+/**
+ * Check if a file is the front page of a folder: index.* or README.*
+ */
+export function isIndexFile(name: string): boolean {
+    return /^(index|readme)\.[^.]+$/i.test(name);
+}
+
+/**
+ * Read the `order` of a chapter: front matter `order: 3`, or the
+ * `:order: 3` attribute/field in AsciiDoc and reStructuredText
+ */
+export function parseChapterOrder(text: string, languageId: string): number | undefined {
+    const lines = text.split(/\r?\n/, HEAD_LINES);
+
+    if (lines[0]?.trim() === '---') {
+        for (let i = 1; i < lines.length; i++) {
+            const line = lines[i].trim();
+            if (line === '---' || line === '...') {
+                break;
+            }
+            const match = FRONT_MATTER_ORDER.exec(line);
+            if (match) {
+                return Number(match[1]);
+            }
+        }
+    }
+
+    if (languageId === 'asciidoc' || languageId === 'restructuredtext') {
+        for (const line of lines) {
+            const match = FIELD_ORDER.exec(line.trim());
+            if (match) {
+                return Number(match[1]);
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Targets of the local document links in a table of contents, in order:
+ * markdown `[text](target)`, AsciiDoc `xref:`/`link:`/`include::` and
+ * reStructuredText `toctree` entries. Fragments and external links are dropped.
+ */
+export function parseChapterLinks(text: string, languageId: string): string[] {
+    const targets: string[] = [];
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+
+    if (languageId === 'asciidoc') {
+        const pattern = /(?:xref:|link:|include::)([^\s[]+)\[/g;
+        for (const line of lines) {
+            for (const match of line.matchAll(pattern)) {
+                targets.push(match[1]);
+            }
+        }
+    } else if (languageId === 'restructuredtext') {
+        targets.push(...parseToctreeEntries(lines));
+    } else {
+        const pattern = /\[[^\]]*\]\(\s*(<[^>]+>|[^)\s]+)(?:\s+["'][^)]*)?\)/g;
+        for (const line of lines) {
+            for (const match of line.matchAll(pattern)) {
+                targets.push(match[1].replace(/^<|>$/g, ''));
+            }
+        }
+    }
+
+    return targets
+        .filter(target => !/^[a-z][a-z0-9+.-]*:/i.test(target) && !target.startsWith('#'))
+        .map(target => decodeTarget(target.replace(/[#?].*$/, '')))
+        .filter(target => target.length > 0);
+}
+
+/**
+ * Order the documents of a book folder:
+ * 1. a SUMMARY file lists the chapters in order, and is not a chapter itself;
+ *    otherwise an index/README file comes first and its links give the order
+ * 2. chapters not linked from either follow, by front-matter `order`
+ * 3. then by file name, comparing numbers numerically ("2-setup" before "10-faq")
+ */
+export function orderChapters(sources: ChapterSource[]): string[] {
+    const byName = new Map(sources.map(source => [source.name, source]));
+    const topLevel = sources.filter(source => !source.name.includes('/'));
+    const contents = findContents(topLevel);
+    const summary = contents && isSummaryFile(contents.name) ? contents : undefined;
+    const index = summary ? undefined : contents;
+
+    const ordered: string[] = [];
+    const add = (name: string | undefined) => {
+        if (name && !ordered.includes(name) && name !== summary?.name) {
+            ordered.push(name);
+        }
+    };
+
+    add(index?.name);
+    if (contents) {
+        for (const target of parseChapterLinks(contents.text, contents.languageId)) {
+            add(resolveChapter(target, byName));
+        }
+    }
+
+    const remaining = topLevel
+        .filter(source => !ordered.includes(source.name) && source !== summary)
+        .map(source => ({ name: source.name, order: parseChapterOrder(source.text, source.languageId) }))
+        .sort((a, b) => {
+            if (a.order !== undefined || b.order !== undefined) {
+                if (a.order === undefined) {
+                    return 1;
+                }
+                if (b.order === undefined) {
+                    return -1;
+                }
+                if (a.order !== b.order) {
+                    return a.order - b.order;
+                }
+            }
+            return compareFileNames(a.name, b.name);
+        });
+    remaining.forEach(source => add(source.name));
+
+    return ordered;
+}
+
+/**
+ * Table of contents of a folder: its SUMMARY file, otherwise its index file,
+ * preferring index.* over README.*
+ */
+function findContents(sources: ChapterSource[]): ChapterSource | undefined {
+    const topLevel = sources.filter(source => !source.name.includes('/'));
+    return topLevel.find(source => isSummaryFile(source.name))
+        ?? topLevel.find(source => /^index\./i.test(source.name))
+        ?? topLevel.find(source => isIndexFile(source.name));
+}
+
+/**
+ * Compare file names the way a file explorer does: case-insensitive, numbers by value
+ */
+function compareFileNames(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Resolve a link target to a known document, trying the file extensions of
+ * the documents for extension-less targets such as toctree entries
+ */
+function resolveChapter(target: string, byName: Map<string, ChapterSource>): string | undefined {
+    const normalized = path.posix.normalize(target.replace(/^\/+/, ''));
+    if (normalized.startsWith('..')) {
+        return undefined;
+    }
+    if (byName.has(normalized)) {
+        return normalized;
+    }
+    return Array.from(byName.keys()).find(name => name.slice(0, name.length - path.posix.extname(name).length) === normalized);
+}
+
+/**
+ * Entries of `.. toctree::` directives, skipping their options
+ */
+function parseToctreeEntries(lines: string[]): string[] {
+    const entries: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        if (!/^\s*\.\.\s+toctree::/.test(lines[i])) {
+            continue;
+        }
+        const indent = /^\s*/.exec(lines[i])?.[0].length ?? 0;
+        for (i++; i < lines.length; i++) {
+            const line = lines[i];
+            if (line.trim() === '') {
+                continue;
+            }
+            if ((/^\s*/.exec(line)?.[0].length ?? 0) <= indent) {
+                i--;
+                break;
+            }
+            const entry = line.trim();
+            if (entry.startsWith(':')) {
+                continue;
+            }
+            // "Title <target>" entries link to the target
+            entries.push(/<([^>]+)>$/.exec(entry)?.[1] ?? entry);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Decode percent-escapes of a link target, keeping malformed ones as written
+ */
+function decodeTarget(target: string): string {
+    try {
+        return decodeURIComponent(target);
+    } catch {
+        return target;
+    }
+}
+
+/**
+ * Reads a folder of documents as a book: the chapters are ordered once when
+ * the folder is opened, and Next/Previous Chapter move through them in
+ * preview-only (reader) mode. The position follows reader-mode navigation,
+ * so going back in the reader history and then to the next chapter
+ * continues from the chapter being shown.
+ */
+export class FolderBook implements vscode.Disposable {
+    private _disposables: vscode.Disposable[] = [];
+    private _folder: vscode.Uri | undefined;
+    private _chapters: vscode.Uri[] = [];
+    private _index = -1;
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+
+    /** Event fired when a book is opened or the current chapter changes */
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(
+        private readonly providers: ProviderRegistry,
+        private readonly previewManager: PreviewManager,
+        private readonly readerHistory: ReaderHistory
+    ) {
+        this._disposables.push(
+            this._onDidChange,
+            this.readerHistory.onDidChange(() => this.syncWithReader())
+        );
+    }
+
+    /** Ordered chapters of the open book */
+    get chapters(): readonly vscode.Uri[] {
+        return this._chapters;
+    }
+
+    /** Whether there is a chapter after the current one */
+    get hasNext(): boolean {
+        return this._index >= 0 && this._index < this._chapters.length - 1;
+    }
+
+    /** Whether there is a chapter before the current one */
+    get hasPrevious(): boolean {
+        return this._index > 0;
+    }
+
+    /**
+     * Order the documents of a folder and open the first one in reader mode
+     */
+    async open(folder: vscode.Uri): Promise<void> {
+        let chapters: vscode.Uri[];
+        try {
+            chapters = await this.readChapters(folder);
+        } catch (error) {
+            logger.error('Failed to read folder as a book', error, { uri: folder });
+            vscode.window.showErrorMessage(`Could not read ${uriBasename(folder)}`);
+            return;
+        }
+
+        if (chapters.length === 0) {
+            vscode.window.showInformationMessage(`${uriBasename(folder)} has no documents that can be previewed`);
+            return;
+        }
+
+        this._folder = folder;
+        this._chapters = chapters;
+        this._index = -1;
+        logger.info(`Reading folder as a book of ${chapters.length} chapters`, { uri: folder });
+        await this.goTo(0);
+    }
+
+    /**
+     * Open the next chapter
+     */
+    async next(): Promise<void> {
+        if (this.hasNext) {
+            await this.goTo(this._index + 1);
+        }
+    }
+
+    /**
+     * Open the previous chapter
+     */
+    async previous(): Promise<void> {
+        if (this.hasPrevious) {
+            await this.goTo(this._index - 1);
+        }
+    }
+
+    /**
+     * Open a chapter in reader mode; the position only moves once it is shown
+     */
+    private async goTo(index: number): Promise<void> {
+        const folder = this._folder;
+        if (!folder) {
+            return;
+        }
+        const chapter = this._chapters[index];
+        if (!await this.previewManager.openReaderPreview(chapter)) {
+            return;
+        }
+        if (this._index !== index) {
+            this._index = index;
+            this._onDidChange.fire();
+        }
+        vscode.window.setStatusBarMessage(
+            `$(book) ${uriBasename(folder)}: chapter ${index + 1} of ${this._chapters.length}, ${uriBasename(chapter)}`,
+            5000
+        );
+    }
+
+    /**
+     * Follow the document shown in reader mode when it is one of the chapters
+     */
+    private syncWithReader(): void {
+        const current = this.readerHistory.current?.toString();
+        const index = this._chapters.findIndex(chapter => chapter.toString() === current);
+        if (index >= 0 && index !== this._index) {
+            this._index = index;
+            this._onDidChange.fire();
+        }
+    }
+
+    /**
+     * Read the previewable documents of a folder, and those in subfolders
+     * linked from its table of contents, and order them
+     */
+    private async readChapters(folder: vscode.Uri): Promise<vscode.Uri[]> {
+        const entries = await vscode.workspace.fs.readDirectory(folder);
+        const names = entries
+            .filter(([name, type]) => type === vscode.FileType.File && this.languageOf(name))
+            .map(([name]) => name);
+
+        const sources = new Map<string, ChapterSource>();
+        for (const name of names) {
+            const source = await this.readSource(folder, name);
+            if (source) {
+                sources.set(name, source);
+            }
+        }
+
+        // Chapters in subfolders are only included when the table of contents links them
+        const contents = findContents(Array.from(sources.values()));
+        if (contents) {
+            for (const target of parseChapterLinks(contents.text, contents.languageId)) {
+                const name = path.posix.normalize(target.replace(/^\/+/, ''));
+                if (!name.includes('/') || name.startsWith('..')) {
+                    continue;
+                }
+                // Extension-less targets (toctree entries) use the extensions of the contents file's language
+                const candidates = path.posix.extname(name)
+                    ? [name]
+                    : (this.providers.get(contents.languageId)?.extensions ?? []).map(ext => name + ext);
+                for (const candidate of candidates) {
+                    if (sources.has(candidate)) {
+                        break;
+                    }
+                    const source = await this.readSource(folder, candidate);
+                    if (source) {
+                        sources.set(candidate, source);
+                        break;
+                    }
+                }
+            }
+        }
+
+        return orderChapters(Array.from(sources.values()))
+            .map(name => vscode.Uri.joinPath(folder, ...name.split('/')));
+    }
+
+    /**
+     * Read one document of the folder; undefined if it does not exist
+     */
+    private async readSource(folder: vscode.Uri, name: string): Promise<ChapterSource | undefined> {
+        const languageId = this.languageOf(name);
+        if (!languageId) {
+            return undefined;
+        }
+        try {
+            const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder, ...name.split('/')));
+            return { name, languageId, text: Buffer.from(bytes).toString('utf8') };
+        } catch (error) {
+            logger.debug(`Skipping unreadable book chapter ${name}: ${error}`, { uri: folder });
+            return undefined;
+        }
+    }
+
+    /**
+     * Language of a file with a registered preview provider
+     */
+    private languageOf(name: string): string | undefined {
+        return this.providers.getByExtension(path.posix.extname(name))?.languageId;
+    }
+
+    dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+    }
+}
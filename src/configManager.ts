@@ -1,102 +1,389 @@
 import * as vscode from 'vscode';
-import { ExtensionConfig, SupportedLanguage } from './types';
+import { ConfigChangeEvent, DiffPreviewMode, ExtensionConfig, LogLevel, PathRule, PREVIEW_LAYOUTS, PreviewLayout, ProviderSetting, SettingOverride, SupportedLanguage, ToggleSetting, ToggleTarget } from './types';
+import { ProviderRegistry } from './providerRegistry';
 
 const CONFIG_SECTION = 'previewMarkdown';
 
+// Local, remote and virtual workspace files; untitled drafts are opt-in
+const DEFAULT_SCHEMES = ['file', 'vscode-remote', 'vscode-vfs'];
+
+const TOGGLE_SETTINGS: readonly ToggleSetting[] = ['enabled', 'previewOnlyMode', 'layout'];
+const TOGGLE_TARGETS: readonly ToggleTarget[] = ['session', 'workspace', 'global'];
+
+/**
+ * Read previewMarkdown.languages as lower-case language IDs.
+ * Accepts the array form and the legacy comma-separated string.
+ */
+function normalizeLanguages(value: readonly string[] | string): string[] {
+    const entries = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+    const languages = entries
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map(entry => entry.trim().toLowerCase())
+        .filter(entry => entry.length > 0);
+    return [...new Set(languages)];
+}
+
+/**
+ * Configuration resolved for one scope, with its parsed language set
+ */
+interface ScopedConfig {
+    config: ExtensionConfig;
+    enabledLanguages: Set<SupportedLanguage>;
+}
+
 /**
  * Manages extension configuration settings.
  * Provides reactive access to settings with automatic updates when changed.
+ *
+ * Settings are resource-scoped: in a multi-root workspace each folder can
+ * override them in its own .vscode/settings.json. Use getConfigFor(uri) to
+ * read the settings that apply to a specific document.
+ *
+ * The toggle commands can also override settings for the current session
+ * only; session overrides are held in memory and win over every scope.
  */
 export class ConfigManager implements vscode.Disposable {
     private _config: ExtensionConfig;
     private _enabledLanguages: Set<SupportedLanguage>;
     private _disposables: vscode.Disposable[] = [];
-    private _onConfigChanged = new vscode.EventEmitter<ExtensionConfig>();
+    private _onConfigChanged = new vscode.EventEmitter<ConfigChangeEvent>();
+    private _providers = new ProviderRegistry();
+
+    // Per-folder configuration, keyed by workspace folder URI
+    private _folderConfigs: Map<string, ScopedConfig> = new Map();
+
+    // Values set by toggles with the "session" target, never written to settings
+    private _sessionOverrides: Partial<Pick<ExtensionConfig, ToggleSetting>> = {};
 
     /** Event fired when configuration changes */
     public readonly onConfigChanged = this._onConfigChanged.event;
 
     constructor() {
         this._config = this.loadConfig();
+        this._providers.setConfiguredProviders(this._config.providers);
         this._enabledLanguages = this.parseLanguages(this._config.languages);
 
         // Watch for configuration changes
         this._disposables.push(
             vscode.workspace.onDidChangeConfiguration(e => {
                 if (e.affectsConfiguration(CONFIG_SECTION)) {
-                    this._config = this.loadConfig();
-                    this._enabledLanguages = this.parseLanguages(this._config.languages);
-                    this._onConfigChanged.fire(this._config);
+                    this.reload((vscode.workspace.workspaceFolders ?? [])
+                        .filter(folder => e.affectsConfiguration(CONFIG_SECTION, folder.uri)));
                 }
             })
         );
+
+        // Languages of providers registered through the API become valid in previewMarkdown.languages
+        this._disposables.push(
+            this._providers.onDidChange(() => {
+                this._enabledLanguages = this.parseLanguages(this._config.languages);
+                this._folderConfigs.clear();
+            })
+        );
+
+        // Folder configs are keyed by folder, so drop them when folders change
+        this._disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                this._folderConfigs.clear();
+            })
+        );
     }
 
-    /** Current configuration snapshot */
+    /** Current window-level configuration snapshot */
     get config(): ExtensionConfig {
         return this._config;
     }
 
-    /** Set of enabled language IDs */
+    /** Registry of preview providers (built-in and configured) */
+    get providers(): ProviderRegistry {
+        return this._providers;
+    }
+
+    /** Set of enabled language IDs at window level */
     get enabledLanguages(): Set<SupportedLanguage> {
         return this._enabledLanguages;
     }
 
     /**
-     * Check if a language is enabled in settings
+     * Re-read the configuration and notify listeners
      */
-    isLanguageEnabled(languageId: string): boolean {
-        return this._enabledLanguages.has(languageId as SupportedLanguage);
+    private reload(affectedFolders: readonly vscode.WorkspaceFolder[]): void {
+        this._config = this.loadConfig();
+        this._providers.setConfiguredProviders(this._config.providers);
+        this._enabledLanguages = this.parseLanguages(this._config.languages);
+        this._folderConfigs.clear();
+        this._onConfigChanged.fire({ config: this._config, affectedFolders });
     }
 
     /**
-     * Load configuration from VS Code settings
+     * Get the configuration that applies to a resource.
+     * Resolves folder-level overrides for URIs inside a workspace folder,
+     * and falls back to the window-level configuration otherwise.
      */
-    private loadConfig(): ExtensionConfig {
-        const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
-        return {
+    getConfigFor(uri: vscode.Uri | undefined): ExtensionConfig {
+        return this.getScopedConfig(uri).config;
+    }
+
+    /**
+     * Check if a language is enabled in settings, optionally for a specific resource
+     */
+    isLanguageEnabled(languageId: string, uri?: vscode.Uri): boolean {
+        return this.getScopedConfig(uri).enabledLanguages.has(languageId as SupportedLanguage);
+    }
+
+    /**
+     * Look up (and cache) the configuration of the folder containing a URI
+     */
+    private getScopedConfig(uri: vscode.Uri | undefined): ScopedConfig {
+        const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+        if (!folder) {
+            return { config: this._config, enabledLanguages: this._enabledLanguages };
+        }
+
+        const key = folder.uri.toString();
+        let scoped = this._folderConfigs.get(key);
+        if (!scoped) {
+            const config = this.loadConfig(folder.uri);
+            scoped = { config, enabledLanguages: this.parseLanguages(config.languages) };
+            this._folderConfigs.set(key, scoped);
+        }
+        return scoped;
+    }
+
+    /**
+     * Load configuration from VS Code settings, optionally for a resource scope.
+     * Session overrides are applied on top.
+     */
+    private loadConfig(scope?: vscode.Uri): ExtensionConfig {
+        const config = vscode.workspace.getConfiguration(CONFIG_SECTION, scope);
+        const openPreviewToSide = config.get<boolean>('openPreviewToSide', true);
+        const toggleTarget = config.get<ToggleTarget>('toggleTarget', 'global');
+        const loaded: ExtensionConfig = {
             enabled: config.get<boolean>('enabled', true),
-            openPreviewToSide: config.get<boolean>('openPreviewToSide', true),
+            openPreviewToSide,
+            layout: this.resolveLayout(config, openPreviewToSide),
+            previewColumn: Math.min(Math.max(Math.round(config.get<number>('previewColumn', 2)), 1), 8),
             autoClosePreview: config.get<boolean>('autoClosePreview', true),
             openOnGitDiff: config.get<boolean>('openOnGitDiff', false),
+            diffPreviewMode: config.get<DiffPreviewMode>('diffPreviewMode', 'single'),
             previewOnlyMode: config.get<boolean>('previewOnlyMode', false),
+            followActiveEditor: config.get<boolean>('followActiveEditor', false),
+            maxOpenPreviews: Math.max(Math.floor(config.get<number>('maxOpenPreviews', 0)), 0),
+            maxFileSizeKB: Math.max(config.get<number>('maxFileSizeKB', 1024), 0),
+            maxLineCount: Math.max(Math.floor(config.get<number>('maxLineCount', 10000)), 0),
             preserveFocus: config.get<boolean>('preserveFocus', true),
-            languages: config.get<string>('languages', 'markdown')
+            languages: normalizeLanguages(config.get<string[] | string>('languages', ['markdown'])),
+            schemes: config.get<string[]>('schemes', DEFAULT_SCHEMES).filter(scheme => typeof scheme === 'string'),
+            include: config.get<PathRule[]>('include', []),
+            exclude: config.get<PathRule[]>('exclude', []),
+            providers: config.get<Record<string, ProviderSetting>>('providers', {}),
+            logLevel: config.get<LogLevel>('logLevel', 'info'),
+            toggleTarget: TOGGLE_TARGETS.includes(toggleTarget) ? toggleTarget : 'global'
         };
+        return { ...loaded, ...this._sessionOverrides };
     }
 
     /**
-     * Parse comma-separated language string into a Set
+     * Resolve previewMarkdown.layout. While it is not set anywhere, the legacy
+     * openPreviewToSide setting picks between "side" and "sameGroup".
      */
-    private parseLanguages(languagesStr: string): Set<SupportedLanguage> {
-        const validLanguages: SupportedLanguage[] = ['markdown', 'asciidoc', 'restructuredtext'];
-        const parsed = languagesStr
-            .split(',')
-            .map(s => s.trim().toLowerCase())
-            .filter(s => validLanguages.includes(s as SupportedLanguage)) as SupportedLanguage[];
+    private resolveLayout(config: vscode.WorkspaceConfiguration, openPreviewToSide: boolean): PreviewLayout {
+        const inspected = config.inspect<PreviewLayout>('layout');
+        const layout = inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
 
+        if (layout && PREVIEW_LAYOUTS.includes(layout)) {
+            return layout;
+        }
+        return openPreviewToSide ? 'side' : 'sameGroup';
+    }
+
+    /**
+     * Build the set of enabled languages.
+     * Only languages with a registered preview provider are kept.
+     */
+    private parseLanguages(languages: readonly string[]): Set<SupportedLanguage> {
+        const parsed = languages.filter(language => this._providers.has(language));
         return new Set(parsed.length > 0 ? parsed : ['markdown']);
     }
 
     /**
-     * Toggle the enabled setting
+     * Entries of previewMarkdown.languages, at window level or in any workspace folder,
+     * that have no preview provider and are therefore ignored
+     */
+    getInvalidLanguages(): string[] {
+        const configs = [this._config, ...(vscode.workspace.workspaceFolders ?? []).map(folder => this.getConfigFor(folder.uri))];
+        const invalid = new Set<string>();
+
+        for (const config of configs) {
+            for (const language of config.languages) {
+                if (!this._providers.has(language)) {
+                    invalid.add(language);
+                }
+            }
+        }
+        return [...invalid];
+    }
+
+    /**
+     * Rewrite comma-separated previewMarkdown.languages values as arrays,
+     * in every settings scope that still holds the old string form.
+     * Returns the number of scopes that were migrated.
+     */
+    async migrateLanguages(): Promise<number> {
+        const windowConfig = vscode.workspace.getConfiguration(CONFIG_SECTION);
+        const scopes = [
+            { config: windowConfig, target: vscode.ConfigurationTarget.Global, key: 'globalValue' as const },
+            { config: windowConfig, target: vscode.ConfigurationTarget.Workspace, key: 'workspaceValue' as const },
+            ...(vscode.workspace.workspaceFolders ?? []).map(folder => ({
+                config: vscode.workspace.getConfiguration(CONFIG_SECTION, folder.uri),
+                target: vscode.ConfigurationTarget.WorkspaceFolder,
+                key: 'workspaceFolderValue' as const
+            }))
+        ];
+
+        let migrated = 0;
+        for (const { config, target, key } of scopes) {
+            const value = config.inspect<unknown>('languages')?.[key];
+            if (typeof value === 'string') {
+                await config.update('languages', normalizeLanguages(value), target);
+                migrated++;
+            }
+        }
+        return migrated;
+    }
+
+    /**
+     * Remove a language from previewMarkdown.languages in every settings scope
+     * that lists it and applies to the resource (or the window)
+     */
+    async disableLanguage(languageId: string, uri?: vscode.Uri): Promise<void> {
+        const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+        const config = vscode.workspace.getConfiguration(CONFIG_SECTION, folder?.uri);
+        const inspected = config.inspect<string[] | string>('languages');
+        const scopes = [
+            { value: inspected?.workspaceFolderValue, target: vscode.ConfigurationTarget.WorkspaceFolder },
+            { value: inspected?.workspaceValue, target: vscode.ConfigurationTarget.Workspace },
+            { value: inspected?.globalValue, target: vscode.ConfigurationTarget.Global }
+        ];
+
+        for (const { value, target } of scopes) {
+            const languages = value === undefined ? [] : normalizeLanguages(value);
+            if (languages.includes(languageId)) {
+                await config.update('languages', languages.filter(language => language !== languageId), target);
+            }
+        }
+    }
+
+    /**
+     * Toggle the enabled setting, in the configured toggle target unless one is given
      */
-    async toggleEnabled(): Promise<void> {
+    async toggleEnabled(target?: ToggleTarget): Promise<ToggleTarget> {
+        return this.updateToggle('enabled', !this._config.enabled, target);
+    }
+
+    /**
+     * Toggle preview-only mode, in the configured toggle target unless one is given
+     */
+    async togglePreviewOnlyMode(target?: ToggleTarget): Promise<ToggleTarget> {
+        return this.updateToggle('previewOnlyMode', !this._config.previewOnlyMode, target);
+    }
+
+    /**
+     * Toggle between opening the preview to the side and in the same editor group
+     */
+    async toggleOpenPreviewToSide(target?: ToggleTarget): Promise<ToggleTarget> {
+        return this.updateToggle('layout', this._config.layout === 'side' ? 'sameGroup' : 'side', target);
+    }
+
+    /**
+     * Switch to the next preview layout and return it
+     */
+    async cycleLayout(target?: ToggleTarget): Promise<PreviewLayout> {
+        const index = PREVIEW_LAYOUTS.indexOf(this._config.layout);
+        const next = PREVIEW_LAYOUTS[(index + 1) % PREVIEW_LAYOUTS.length];
+        await this.updateToggle('layout', next, target);
+        return next;
+    }
+
+    /**
+     * Store a toggled value and return the target it was stored in.
+     * Without an open workspace, workspace toggles fall back to the session.
+     * Writing to settings drops the session override of the same setting,
+     * otherwise the change would not take effect.
+     */
+    private async updateToggle<K extends ToggleSetting>(
+        setting: K,
+        value: ExtensionConfig[K],
+        target: ToggleTarget = this._config.toggleTarget
+    ): Promise<ToggleTarget> {
+        if (target === 'workspace' && !vscode.workspace.workspaceFolders?.length) {
+            target = 'session';
+        }
+
+        if (target === 'session') {
+            this._sessionOverrides[setting] = value;
+            this.reload(vscode.workspace.workspaceFolders ?? []);
+            return target;
+        }
+
+        const hadOverride = setting in this._sessionOverrides;
+        delete this._sessionOverrides[setting];
+
+        const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+        const configTarget = target === 'workspace'
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+        await config.update(setting, value, configTarget);
+
+        // No change event fires if the stored value was already the same
+        if (hadOverride) {
+            this.reload(vscode.workspace.workspaceFolders ?? []);
+        }
+        return target;
+    }
+
+    /**
+     * Toggle settings currently overridden for this session or in the workspace settings
+     */
+    getOverrides(): SettingOverride[] {
         const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
-        const current = config.get<boolean>('enabled', true);
-        await config.update('enabled', !current, vscode.ConfigurationTarget.Global);
+        const overrides: SettingOverride[] = [];
+
+        for (const setting of TOGGLE_SETTINGS) {
+            const sessionValue = this._sessionOverrides[setting];
+            const workspaceValue = config.inspect<boolean | PreviewLayout>(setting)?.workspaceValue;
+            if (sessionValue !== undefined) {
+                overrides.push({ setting, scope: 'session', value: sessionValue });
+            } else if (workspaceValue !== undefined) {
+                overrides.push({ setting, scope: 'workspace', value: workspaceValue });
+            }
+        }
+        return overrides;
     }
 
     /**
-     * Toggle preview-only mode
+     * Drop all session overrides and remove toggle settings from the workspace settings,
+     * so the user settings apply again
      */
-    async togglePreviewOnlyMode(): Promise<void> {
+    async clearOverrides(): Promise<void> {
         const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
-        const current = config.get<boolean>('previewOnlyMode', false);
-        await config.update('previewOnlyMode', !current, vscode.ConfigurationTarget.Global);
+        const hadSessionOverrides = Object.keys(this._sessionOverrides).length > 0;
+        this._sessionOverrides = {};
+
+        for (const setting of TOGGLE_SETTINGS) {
+            if (config.inspect(setting)?.workspaceValue !== undefined) {
+                await config.update(setting, undefined, vscode.ConfigurationTarget.Workspace);
+            }
+        }
+
+        if (hadSessionOverrides) {
+            this.reload(vscode.workspace.workspaceFolders ?? []);
+        }
     }
 
     dispose(): void {
+        this._folderConfigs.clear();
+        this._providers.dispose();
         this._onConfigChanged.dispose();
         this._disposables.forEach(d => d.dispose());
     }
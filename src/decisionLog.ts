@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { DecisionKind, DecisionOutcome, PreviewDecision } from './types';
+import { logger } from './logger';
+
+/**
+ * Records why previews were opened, skipped, closed or kept, per source document.
+ * Backs the "Why didn't my preview open?" command; every decision is also
+ * written to the output channel at debug level.
+ */
+export class DecisionLog implements vscode.Disposable {
+    // Decisions per source URI, oldest first; map order is least recently updated first
+    private _decisions: Map<string, PreviewDecision[]> = new Map();
+
+    private readonly MAX_PER_DOCUMENT = 20;
+    private readonly MAX_DOCUMENTS = 100;
+
+    private _onDidRecord = new vscode.EventEmitter<PreviewDecision>();
+
+    /** Event fired after a decision is recorded */
+    public readonly onDidRecord = this._onDidRecord.event;
+
+    /**
+     * Record a decision about a source document
+     */
+    record(uri: vscode.Uri, kind: DecisionKind, outcome: DecisionOutcome, reason: string): void {
+        const decision: PreviewDecision = { uri, kind, outcome, reason, time: Date.now() };
+        const key = uri.toString();
+
+        const entries = this._decisions.get(key) ?? [];
+        this._decisions.delete(key);
+        entries.push(decision);
+        if (entries.length > this.MAX_PER_DOCUMENT) {
+            entries.splice(0, entries.length - this.MAX_PER_DOCUMENT);
+        }
+        this._decisions.set(key, entries);
+
+        // Forget the least recently updated document
+        if (this._decisions.size > this.MAX_DOCUMENTS) {
+            const oldest = this._decisions.keys().next().value;
+            if (oldest !== undefined) {
+                this._decisions.delete(oldest);
+            }
+        }
+
+        logger.debug(`Preview ${kind} decision`, { uri, decision: `${outcome}: ${reason}` });
+        this._onDidRecord.fire(decision);
+    }
+
+    /**
+     * Decisions recorded for a source document, most recent first
+     */
+    getDecisions(uri: vscode.Uri): PreviewDecision[] {
+        return [...(this._decisions.get(uri.toString()) ?? [])].reverse();
+    }
+
+    /**
+     * Forget all recorded decisions
+     */
+    clear(): void {
+        this._decisions.clear();
+    }
+
+    dispose(): void {
+        this._decisions.clear();
+        this._onDidRecord.dispose();
+    }
+}
@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from './configManager';
+import { DecisionLog } from './decisionLog';
+import { escapeHtml } from './html';
+import { PreviewDecision } from './types';
+import { uriBasename, uriDisplayPath } from './uriUtils';
+
+/**
+ * Webview answering "Why didn't my preview open?" for one document:
+ * the settings that apply to it and the open/close decisions recorded for it,
+ * most recent first. Updates live while it is visible.
+ */
+export class DecisionPanel implements vscode.Disposable {
+    private _disposables: vscode.Disposable[] = [];
+    private _panel: vscode.WebviewPanel | undefined;
+    private _uri: vscode.Uri | undefined;
+
+    /** Webview viewType of the panel */
+    static readonly VIEW_TYPE = 'previewMarkdown.explain';
+
+    constructor(
+        private readonly decisionLog: DecisionLog,
+        private readonly configManager: ConfigManager
+    ) {
+        this._disposables.push(
+            this.decisionLog.onDidRecord(decision => {
+                if (this._uri && decision.uri.toString() === this._uri.toString()) {
+                    this.render();
+                }
+            }),
+            this.configManager.onConfigChanged(() => this.render())
+        );
+    }
+
+    /**
+     * Show the decision trace of a document, reusing the panel if it is open
+     */
+    show(uri: vscode.Uri): void {
+        this._uri = uri;
+
+        if (this._panel) {
+            this._panel.reveal(vscode.ViewColumn.Beside, true);
+        } else {
+            this._panel = vscode.window.createWebviewPanel(
+                DecisionPanel.VIEW_TYPE,
+                'Preview Decisions',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableFindWidget: true }
+            );
+            this._panel.onDidDispose(() => {
+                this._panel = undefined;
+                this._uri = undefined;
+            });
+        }
+
+        this._panel.title = `Preview Decisions: ${uriBasename(uri)}`;
+        this.render();
+    }
+
+    /**
+     * Render the current document's settings and decisions into the panel
+     */
+    private render(): void {
+        if (!this._panel || !this._uri) {
+            return;
+        }
+
+        const uri = this._uri;
+        const config = this.configManager.getConfigFor(uri);
+        const decisions = this.decisionLog.getDecisions(uri);
+
+        const settings: [string, string][] = [
+            ['enabled', String(config.enabled)],
+            ['languages', config.languages.join(', ')],
+            ['schemes', config.schemes.join(', ')],
+            ['openOnGitDiff', String(config.openOnGitDiff)],
+            ['previewOnlyMode', String(config.previewOnlyMode)],
+            ['autoClosePreview', String(config.autoClosePreview)],
+            ['layout', config.layout]
+        ];
+
+        const settingRows = settings
+            .map(([name, value]) => `<tr><td><code>previewMarkdown.${name}</code></td><td>${escapeHtml(value)}</td></tr>`)
+            .join('\n');
+
+        const decisionSection = decisions.length > 0
+            ? `<table>
+<thead><tr><th>Time</th><th>Action</th><th>Result</th><th>Reason</th></tr></thead>
+<tbody>
+${decisions.map(decision => this.renderDecision(decision)).join('\n')}
+</tbody>
+</table>`
+            : `<p>No decisions recorded for this document since the window was loaded.
+Documents opened before the extension activated, or that are not a supported language, have no trace.
+Reopen the document to record a new decision.</p>`;
+
+        this._panel.webview.html = `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <style>
+        body { padding: 0 20px; line-height: 1.5; }
+        table { border-collapse: collapse; margin-bottom: 1.5em; }
+        th, td { text-align: left; padding: 4px 12px 4px 0; vertical-align: top; border-bottom: 1px solid var(--vscode-panel-border); }
+        .opened, .closed { color: var(--vscode-gitDecoration-addedResourceForeground); }
+        .skipped, .kept { color: var(--vscode-gitDecoration-modifiedResourceForeground); }
+        .failed { color: var(--vscode-errorForeground); }
+    </style>
+</head>
+<body>
+<h2>${escapeHtml(uriBasename(uri))}</h2>
+<p><code>${escapeHtml(uriDisplayPath(uri))}</code></p>
+<h3>Decisions (most recent first)</h3>
+${decisionSection}
+<h3>Settings for this document</h3>
+<table>
+<tbody>
+${settingRows}
+</tbody>
+</table>
+</body>
+</html>`;
+    }
+
+    /**
+     * Render one decision as a table row
+     */
+    private renderDecision(decision: PreviewDecision): string {
+        const time = new Date(decision.time).toLocaleTimeString();
+        return `<tr><td>${escapeHtml(time)}</td><td>${decision.kind}</td>` +
+            `<td class="${decision.outcome}">${decision.outcome}</td><td>${escapeHtml(decision.reason)}</td></tr>`;
+    }
+
+    dispose(): void {
+        this._panel?.dispose();
+        this._disposables.forEach(d => d.dispose());
+    }
+}
@@ -24,6 +24,16 @@ export class DiffDetector {
         return activeTab.input instanceof vscode.TabInputTextDiff;
     }
 
+    /**
+     * Get the diff shown in the active tab.
+     *
+     * @returns The diff input of the active tab, or undefined if it is not a diff
+     */
+    getActiveDiff(): vscode.TabInputTextDiff | undefined {
+        const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+        return input instanceof vscode.TabInputTextDiff ? input : undefined;
+    }
+
     /**
      * Check if a specific document is currently open in a diff view.
      * Searches all tab groups for diff tabs containing this URI.
@@ -47,6 +57,16 @@ export class DiffDetector {
         return false;
     }
 
+    /**
+     * Get a stable key identifying a diff by its original and modified URIs.
+     *
+     * @param diff The diff tab input
+     * @returns A key that is equal for diffs of the same two documents
+     */
+    getDiffKey(diff: vscode.TabInputTextDiff): string {
+        return `${diff.original.toString()}|${diff.modified.toString()}`;
+    }
+
     /**
      * Get information about a diff view tab for a given URI.
      *
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { PreviewDirective } from './types';
+
+// Directives are only looked for near the top of a document
+const HEAD_LINES = 60;
+
+const VALUE = '(reader|side|off)';
+
+// YAML front matter key: preview: reader
+const FRONT_MATTER_KEY = new RegExp(`^preview\\s*:\\s*["']?${VALUE}["']?\\s*(?:#.*)?$`, 'i');
+
+// AsciiDoc attribute or reStructuredText field: :preview: reader
+const FIELD = new RegExp(`^:preview:\\s*${VALUE}\\s*$`, 'i');
+
+// HTML comment: <!-- preview: reader -->
+const HTML_COMMENT = new RegExp(`<!--\\s*preview\\s*:\\s*${VALUE}\\s*-->`, 'i');
+
+/**
+ * Find the preview directive in the head of a document's text:
+ * - front matter key `preview: reader|side|off`
+ * - AsciiDoc attribute / RST field `:preview: reader|side|off` (asciidoc, restructuredtext)
+ * - HTML comment `<!-- preview: reader|side|off -->`
+ */
+export function parsePreviewDirective(text: string, languageId: string): PreviewDirective | undefined {
+    const lines = text.split(/\r?\n/, HEAD_LINES);
+
+    // Front matter must start on the first line
+    if (lines[0]?.trim() === '---') {
+        for (let i = 1; i < lines.length; i++) {
+            const line = lines[i].trim();
+            if (line === '---' || line === '...') {
+                break;
+            }
+            const match = FRONT_MATTER_KEY.exec(line);
+            if (match) {
+                return match[1].toLowerCase() as PreviewDirective;
+            }
+        }
+    }
+
+    const fieldSyntax = languageId === 'asciidoc' || languageId === 'restructuredtext';
+    for (const line of lines) {
+        const match = (fieldSyntax ? FIELD.exec(line.trim()) : null) ?? HTML_COMMENT.exec(line);
+        if (match) {
+            return match[1].toLowerCase() as PreviewDirective;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Read the preview directive of a document, looking only at its first lines
+ */
+export function readPreviewDirective(document: vscode.TextDocument): PreviewDirective | undefined {
+    const end = Math.min(document.lineCount, HEAD_LINES);
+    const text = document.getText(new vscode.Range(0, 0, end, 0));
+    return parsePreviewDirective(text, document.languageId);
+}
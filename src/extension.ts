@@ -3,13 +3,40 @@ import { ConfigManager } from './configManager';
 import { DiffDetector } from './diffDetector';
 import { TabTracker } from './tabTracker';
 import { PreviewManager } from './previewManager';
+import { ReaderHistory } from './readerHistory';
+import { StatusBarController } from './statusBarController';
+import { RedlinePreview } from './redlinePreview';
+import { DecisionLog } from './decisionLog';
+import { DecisionPanel } from './decisionPanel';
+import { ProviderCapabilities } from './providerCapabilities';
+import { FallbackPreview } from './fallbackPreview';
+import { PreviewOutline } from './previewOutline';
+import { FolderBook } from './book';
+import { AutoPreviewApi, ExtensionApi } from './api';
 import { logger } from './logger';
+import { uriBasename } from './uriUtils';
+import { ToggleTarget } from './types';
 
 // Module-level references for cleanup
 let configManager: ConfigManager | undefined;
 let diffDetector: DiffDetector | undefined;
 let tabTracker: TabTracker | undefined;
 let previewManager: PreviewManager | undefined;
+let readerHistory: ReaderHistory | undefined;
+let statusBarController: StatusBarController | undefined;
+let redlinePreview: RedlinePreview | undefined;
+let decisionLog: DecisionLog | undefined;
+let decisionPanel: DecisionPanel | undefined;
+let capabilities: ProviderCapabilities | undefined;
+let fallbackPreview: FallbackPreview | undefined;
+let previewOutline: PreviewOutline | undefined;
+let folderBook: FolderBook | undefined;
+
+// Unknown previewMarkdown.languages entries already warned about in this session
+const warnedLanguages = new Set<string>();
+
+// Delay before the first languages check, so extensions registering providers through the API have activated
+const LANGUAGE_CHECK_DELAY_MS = 5000;
 
 /**
  * Extension activation - called when VS Code activates the extension.
@@ -17,28 +44,46 @@ let previewManager: PreviewManager | undefined;
  * - onLanguage:markdown
  * - onLanguage:asciidoc
  * - onLanguage:restructuredtext
+ * - onStartupFinished (for languages added through previewMarkdown.providers)
+ * Commands and the Preview Outline view activate it implicitly.
+ *
+ * Returns the versioned API other extensions get from `extension.exports`.
  */
-export function activate(context: vscode.ExtensionContext): void {
-    logger.info('Extension activating...');
-
+export function activate(context: vscode.ExtensionContext): AutoPreviewApi {
     try {
         // Initialize components
         configManager = new ConfigManager();
+        logger.setLevel(configManager.config.logLevel);
+        logger.info('Extension activating...');
         diffDetector = new DiffDetector();
-        tabTracker = new TabTracker();
-        previewManager = new PreviewManager(configManager, diffDetector, tabTracker);
+        tabTracker = new TabTracker(configManager.providers, context.workspaceState);
+        // Re-attach previews restored by VS Code before the preview manager starts
+        tabTracker.restore();
+        readerHistory = new ReaderHistory(context.workspaceState);
+        redlinePreview = new RedlinePreview(diffDetector);
+        decisionLog = new DecisionLog();
+        decisionPanel = new DecisionPanel(decisionLog, configManager);
+        capabilities = new ProviderCapabilities(configManager);
+        capabilities.refresh();
+        fallbackPreview = new FallbackPreview();
+        previewManager = new PreviewManager(
+            configManager, diffDetector, tabTracker, readerHistory, redlinePreview, decisionLog, capabilities, fallbackPreview
+        );
+        statusBarController = new StatusBarController(configManager, diffDetector, previewManager);
+        previewOutline = new PreviewOutline(tabTracker, previewManager);
+        folderBook = new FolderBook(configManager.providers, previewManager, readerHistory);
 
         // Register commands
         const toggleEnabledCommand = vscode.commands.registerCommand(
             'previewMarkdown.toggleEnabled',
-            async () => {
+            async (target?: ToggleTarget) => {
                 try {
-                    await configManager?.toggleEnabled();
+                    const storedIn = await configManager?.toggleEnabled(target);
                     const enabled = configManager?.config.enabled;
                     vscode.window.showInformationMessage(
-                        `Auto Preview Markdown: ${enabled ? 'Enabled' : 'Disabled'}`
+                        `Auto Preview Markdown: ${enabled ? 'Enabled' : 'Disabled'}${describeTarget(storedIn)}`
                     );
-                    logger.info(`Extension ${enabled ? 'enabled' : 'disabled'} by user`);
+                    logger.info(`Extension ${enabled ? 'enabled' : 'disabled'} by user (${storedIn})`);
                 } catch (error) {
                     logger.error('Failed to toggle extension', error);
                     vscode.window.showErrorMessage('Failed to toggle Auto Preview Markdown');
@@ -48,14 +93,14 @@ export function activate(context: vscode.ExtensionContext): void {
 
         const togglePreviewOnlyCommand = vscode.commands.registerCommand(
             'previewMarkdown.togglePreviewOnlyMode',
-            async () => {
+            async (target?: ToggleTarget) => {
                 try {
-                    await configManager?.togglePreviewOnlyMode();
+                    const storedIn = await configManager?.togglePreviewOnlyMode(target);
                     const previewOnly = configManager?.config.previewOnlyMode;
                     vscode.window.showInformationMessage(
-                        `Preview-Only Mode: ${previewOnly ? 'Enabled' : 'Disabled'}`
+                        `Preview-Only Mode: ${previewOnly ? 'Enabled' : 'Disabled'}${describeTarget(storedIn)}`
                     );
-                    logger.info(`Preview-only mode ${previewOnly ? 'enabled' : 'disabled'} by user`);
+                    logger.info(`Preview-only mode ${previewOnly ? 'enabled' : 'disabled'} by user (${storedIn})`);
                 } catch (error) {
                     logger.error('Failed to toggle preview-only mode', error);
                     vscode.window.showErrorMessage('Failed to toggle Preview-Only Mode');
@@ -63,6 +108,145 @@ export function activate(context: vscode.ExtensionContext): void {
             }
         );
 
+        const toggleOpenToSideCommand = vscode.commands.registerCommand(
+            'previewMarkdown.toggleOpenPreviewToSide',
+            async (target?: ToggleTarget) => {
+                try {
+                    const storedIn = await configManager?.toggleOpenPreviewToSide(target);
+                    logger.info(`Preview layout set to ${configManager?.config.layout} by user (${storedIn})`);
+                } catch (error) {
+                    logger.error('Failed to toggle preview layout', error);
+                    vscode.window.showErrorMessage('Failed to change the preview layout');
+                }
+            }
+        );
+
+        const cycleLayoutCommand = vscode.commands.registerCommand(
+            'previewMarkdown.cycleLayout',
+            async (target?: ToggleTarget) => {
+                try {
+                    const layout = await configManager?.cycleLayout(target);
+                    vscode.window.showInformationMessage(`Auto Preview Markdown: preview layout "${layout}"`);
+                    logger.info(`Preview layout set to ${layout} by user`);
+                } catch (error) {
+                    logger.error('Failed to cycle preview layout', error);
+                    vscode.window.showErrorMessage('Failed to change the preview layout');
+                }
+            }
+        );
+
+        const clearOverridesCommand = vscode.commands.registerCommand(
+            'previewMarkdown.clearOverrides',
+            async () => {
+                try {
+                    const count = configManager?.getOverrides().length ?? 0;
+                    await configManager?.clearOverrides();
+                    vscode.window.showInformationMessage(count > 0
+                        ? 'Auto Preview Markdown: overrides cleared, user settings apply again'
+                        : 'Auto Preview Markdown: no overrides to clear');
+                    logger.info(`Cleared ${count} setting override(s) by user`);
+                } catch (error) {
+                    logger.error('Failed to clear setting overrides', error);
+                    vscode.window.showErrorMessage('Failed to clear Auto Preview Markdown overrides');
+                }
+            }
+        );
+
+        const openPreviewCommand = vscode.commands.registerCommand(
+            'previewMarkdown.openPreview',
+            () => previewManager?.openPreviewForActiveEditor()
+        );
+
+        const closePreviewCommand = vscode.commands.registerCommand(
+            'previewMarkdown.closePreview',
+            async () => {
+                const uri = previewManager?.getActiveSourceUri();
+                if (uri) {
+                    await previewManager?.closePreview(uri, 'closed with the Close Preview command');
+                }
+            }
+        );
+
+        const showRedlineCommand = vscode.commands.registerCommand(
+            'previewMarkdown.showRedlineDiff',
+            async () => {
+                const diff = diffDetector?.getActiveDiff();
+                if (!diff) {
+                    vscode.window.showInformationMessage('Open a diff to show its redline view');
+                    return;
+                }
+                await redlinePreview?.show(diff);
+            }
+        );
+
+        const explainCommand = vscode.commands.registerCommand(
+            'previewMarkdown.explain',
+            () => {
+                const uri = previewManager?.getActiveSourceUri() ?? vscode.window.activeTextEditor?.document.uri;
+                if (!uri) {
+                    vscode.window.showInformationMessage('Open a document to see why its preview did or did not open');
+                    return;
+                }
+                decisionPanel?.show(uri);
+            }
+        );
+
+        const readerBackCommand = vscode.commands.registerCommand(
+            'previewMarkdown.readerBack',
+            () => previewManager?.navigateReaderHistory('back')
+        );
+
+        const readerForwardCommand = vscode.commands.registerCommand(
+            'previewMarkdown.readerForward',
+            () => previewManager?.navigateReaderHistory('forward')
+        );
+
+        const readerHistoryCommand = vscode.commands.registerCommand(
+            'previewMarkdown.showReaderHistory',
+            () => showReaderHistoryPicker()
+        );
+
+        const readFolderAsBookCommand = vscode.commands.registerCommand(
+            'previewMarkdown.readFolderAsBook',
+            async (folder?: vscode.Uri) => {
+                const target = folder ?? (await vscode.window.showOpenDialog({
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    openLabel: 'Read as Book'
+                }))?.[0];
+                if (target) {
+                    await folderBook?.open(target);
+                }
+            }
+        );
+
+        const nextChapterCommand = vscode.commands.registerCommand(
+            'previewMarkdown.nextChapter',
+            () => folderBook?.next()
+        );
+
+        const previousChapterCommand = vscode.commands.registerCommand(
+            'previewMarkdown.previousChapter',
+            () => folderBook?.previous()
+        );
+
+        const showLogsCommand = vscode.commands.registerCommand(
+            'previewMarkdown.showLogs',
+            () => logger.show()
+        );
+
+        const logLevelListener = configManager.onConfigChanged(event => logger.setLevel(event.config.logLevel));
+
+        // Enable the back/forward keybindings only when there is somewhere to go
+        updateReaderHistoryContext();
+        const readerHistoryListener = readerHistory.onDidChange(updateReaderHistoryContext);
+        updateBookContext();
+        const bookListener = folderBook.onDidChange(updateBookContext);
+
+        // Keep keybinding "when" clauses in sync with the registered providers
+        updateSupportedLanguagesContext();
+        const providersChangedListener = configManager.providers.onDidChange(updateSupportedLanguagesContext);
+
         // Add all disposables to context for cleanup
         context.subscriptions.push(
             { dispose: () => logger.dispose() },
@@ -70,13 +254,47 @@ export function activate(context: vscode.ExtensionContext): void {
             tabTracker,
             previewManager,
             toggleEnabledCommand,
-            togglePreviewOnlyCommand
+            togglePreviewOnlyCommand,
+            toggleOpenToSideCommand,
+            cycleLayoutCommand,
+            clearOverridesCommand,
+            openPreviewCommand,
+            closePreviewCommand,
+            statusBarController,
+            redlinePreview,
+            showRedlineCommand,
+            providersChangedListener,
+            readerHistory,
+            readerBackCommand,
+            readerForwardCommand,
+            readerHistoryCommand,
+            readerHistoryListener,
+            folderBook,
+            readFolderAsBookCommand,
+            nextChapterCommand,
+            previousChapterCommand,
+            bookListener,
+            showLogsCommand,
+            logLevelListener,
+            decisionLog,
+            decisionPanel,
+            capabilities,
+            fallbackPreview,
+            previewOutline,
+            explainCommand
         );
 
+        const api = new ExtensionApi(previewManager, tabTracker, configManager.providers);
+        context.subscriptions.push(api);
+
+        migrateLanguagesSetting();
+        context.subscriptions.push(scheduleLanguageCheck());
+
         // Handle already-open documents (extension activated after files were opened)
         processExistingDocuments();
 
         logger.info('Extension activated successfully');
+        return api;
     } catch (error) {
         logger.error('Failed to activate extension', error);
         vscode.window.showErrorMessage('Auto Preview Markdown failed to activate. Check the output channel for details.');
@@ -92,17 +310,138 @@ export function activate(context: vscode.ExtensionContext): void {
 function processExistingDocuments(): void {
     // Small delay to let VS Code finish initializing
     setTimeout(() => {
-        const activeEditor = vscode.window.activeTextEditor;
-        if (activeEditor) {
-            const doc = activeEditor.document;
-            const supportedLanguages = ['markdown', 'asciidoc', 'restructuredtext'];
-
-            if (supportedLanguages.includes(doc.languageId)) {
-                // Trigger the preview manager to check this document
-                previewManager?.openPreviewForActiveEditor();
+        // Apply the same language and include/exclude checks as a regular open
+        previewManager?.processVisibleEditors();
+    }, 100);
+}
+
+/**
+ * Rewrite a comma-separated previewMarkdown.languages setting as an array
+ */
+function migrateLanguagesSetting(): void {
+    configManager?.migrateLanguages().then(
+        migrated => {
+            if (migrated > 0) {
+                logger.info(`Migrated previewMarkdown.languages to an array in ${migrated} settings scope(s)`);
             }
+        },
+        error => logger.error('Failed to migrate previewMarkdown.languages', error)
+    );
+}
+
+/**
+ * Check previewMarkdown.languages after activation has settled, and again whenever
+ * the languages or providers change. Returns a disposable that stops the checks.
+ */
+function scheduleLanguageCheck(): vscode.Disposable {
+    let ready = false;
+    const timeout = setTimeout(() => {
+        ready = true;
+        warnInvalidLanguages();
+    }, LANGUAGE_CHECK_DELAY_MS);
+
+    const listener = vscode.workspace.onDidChangeConfiguration(e => {
+        if (ready && (e.affectsConfiguration('previewMarkdown.languages') || e.affectsConfiguration('previewMarkdown.providers'))) {
+            warnInvalidLanguages();
         }
-    }, 100);
+    });
+
+    return new vscode.Disposable(() => {
+        clearTimeout(timeout);
+        listener.dispose();
+    });
+}
+
+/**
+ * Warn once per session about previewMarkdown.languages entries without a preview provider,
+ * e.g. a typo like "asciidoctor", with a link to the setting
+ */
+function warnInvalidLanguages(): void {
+    const invalid = (configManager?.getInvalidLanguages() ?? []).filter(language => !warnedLanguages.has(language));
+    if (invalid.length === 0) {
+        return;
+    }
+
+    invalid.forEach(language => warnedLanguages.add(language));
+    const quoted = invalid.map(language => `"${language}"`).join(', ');
+    logger.warn(`Ignoring unknown language(s) in previewMarkdown.languages: ${quoted}`);
+
+    vscode.window.showWarningMessage(
+        `Auto Preview Markdown: ${quoted} in previewMarkdown.languages ${invalid.length === 1 ? 'has' : 'have'} no preview provider and ${invalid.length === 1 ? 'is' : 'are'} ignored.`,
+        'Open Setting'
+    ).then(choice => {
+        if (choice === 'Open Setting') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'previewMarkdown.languages');
+        }
+    });
+}
+
+/**
+ * Publish the language IDs that have a preview provider as a context key,
+ * used by the keybinding "when" clauses in package.json.
+ */
+function updateSupportedLanguagesContext(): void {
+    const languageIds = configManager?.providers.languageIds ?? [];
+    vscode.commands.executeCommand('setContext', 'previewMarkdown.supportedLanguages', languageIds);
+}
+
+/**
+ * Publish whether reader-mode back/forward navigation is possible,
+ * used by the keybinding "when" clauses in package.json.
+ */
+function updateReaderHistoryContext(): void {
+    vscode.commands.executeCommand('setContext', 'previewMarkdown.readerCanGoBack', readerHistory?.canGoBack ?? false);
+    vscode.commands.executeCommand('setContext', 'previewMarkdown.readerCanGoForward', readerHistory?.canGoForward ?? false);
+}
+
+/**
+ * Publish whether the book being read has a next/previous chapter,
+ * used by the keybinding "when" clauses in package.json.
+ */
+function updateBookContext(): void {
+    vscode.commands.executeCommand('setContext', 'previewMarkdown.bookHasNext', folderBook?.hasNext ?? false);
+    vscode.commands.executeCommand('setContext', 'previewMarkdown.bookHasPrevious', folderBook?.hasPrevious ?? false);
+}
+
+/**
+ * Show a quick pick of recently read documents and open the selection in reader mode.
+ */
+async function showReaderHistoryPicker(): Promise<void> {
+    const recent = readerHistory?.recent ?? [];
+    if (recent.length === 0) {
+        vscode.window.showInformationMessage('No documents have been read in preview-only mode yet');
+        return;
+    }
+
+    const current = readerHistory?.current?.toString();
+    const items = recent.map(uri => ({
+        label: uriBasename(uri),
+        description: vscode.workspace.asRelativePath(uri, true),
+        detail: uri.toString() === current ? 'Currently reading' : undefined,
+        uri
+    }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Recently read documents',
+        matchOnDescription: true
+    });
+    if (picked) {
+        await previewManager?.openReaderPreview(picked.uri);
+    }
+}
+
+/**
+ * Suffix of toggle notifications naming where the change was stored
+ */
+function describeTarget(target: ToggleTarget | undefined): string {
+    switch (target) {
+        case 'session':
+            return ' for this session';
+        case 'workspace':
+            return ' for this workspace';
+        default:
+            return '';
+    }
 }
 
 /**
@@ -117,4 +456,14 @@ export function deactivate(): void {
     diffDetector = undefined;
     tabTracker = undefined;
     previewManager = undefined;
+    readerHistory = undefined;
+    statusBarController = undefined;
+    redlinePreview = undefined;
+    decisionLog = undefined;
+    decisionPanel = undefined;
+    capabilities = undefined;
+    fallbackPreview = undefined;
+    previewOutline = undefined;
+    folderBook = undefined;
+    warnedLanguages.clear();
 }
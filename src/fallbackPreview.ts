@@ -0,0 +1,216 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { FALLBACK_LANGUAGES, renderFallbackHtml } from './fallbackRenderer';
+import { logger } from './logger';
+import { matchesViewType } from './providerRegistry';
+import { PreviewProvider, SupportedLanguage } from './types';
+import { uriBasename } from './uriUtils';
+
+/**
+ * An open fallback preview and the document it shows
+ */
+interface FallbackPanel {
+    panel: vscode.WebviewPanel;
+    uri: vscode.Uri;
+    renderTimeout?: NodeJS.Timeout;
+}
+
+/**
+ * Lightweight built-in preview for AsciiDoc and reStructuredText, used when
+ * no installed extension provides one. Renders the common block types to
+ * HTML in a webview and re-renders as the document is edited. Headings
+ * carry anchors the Preview Outline can scroll to.
+ *
+ * It is opened through its own commands and exposed as a PreviewProvider,
+ * so previews are tracked and auto-closed like any other.
+ */
+export class FallbackPreview implements vscode.Disposable {
+    private _disposables: vscode.Disposable[] = [];
+
+    // Open panels, keyed by source URI
+    private _panels: Map<string, FallbackPanel> = new Map();
+
+    private readonly RENDER_DEBOUNCE_MS = 300;
+
+    /** Webview viewType of fallback previews */
+    static readonly VIEW_TYPE = 'previewMarkdown.fallbackPreview';
+
+    /** Command opening the fallback preview in the active editor group */
+    static readonly SHOW_COMMAND = 'previewMarkdown.showFallbackPreview';
+
+    /** Command opening the fallback preview beside the active editor group */
+    static readonly SHOW_TO_SIDE_COMMAND = 'previewMarkdown.showFallbackPreviewToSide';
+
+    constructor() {
+        this._disposables.push(
+            vscode.commands.registerCommand(FallbackPreview.SHOW_COMMAND, (uri: vscode.Uri) =>
+                this.show(uri, vscode.ViewColumn.Active)),
+            vscode.commands.registerCommand(FallbackPreview.SHOW_TO_SIDE_COMMAND, (uri: vscode.Uri) =>
+                this.show(uri, vscode.ViewColumn.Beside)),
+
+            // Re-render while the user types
+            vscode.workspace.onDidChangeTextDocument(event => {
+                const entry = this._panels.get(event.document.uri.toString());
+                if (entry) {
+                    this.scheduleRender(entry);
+                }
+            })
+        );
+    }
+
+    /**
+     * Check if the fallback preview can render a language
+     */
+    supports(languageId: SupportedLanguage): boolean {
+        return FALLBACK_LANGUAGES.includes(languageId);
+    }
+
+    /**
+     * Provider that opens the fallback preview for documents of a language,
+     * keeping the file extensions of the language's own provider
+     */
+    getProvider(provider: PreviewProvider): PreviewProvider {
+        return {
+            languageId: provider.languageId,
+            extensions: provider.extensions,
+            commands: {
+                toSide: FallbackPreview.SHOW_TO_SIDE_COMMAND,
+                sameGroup: FallbackPreview.SHOW_COMMAND
+            },
+            viewType: FallbackPreview.VIEW_TYPE
+        };
+    }
+
+    /**
+     * Show the fallback preview of a document, revealing it if already open
+     */
+    async show(uri: vscode.Uri, viewColumn: vscode.ViewColumn): Promise<void> {
+        const key = uri.toString();
+        const existing = this._panels.get(key);
+        if (existing) {
+            existing.panel.reveal(viewColumn);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            FallbackPreview.VIEW_TYPE,
+            `Preview ${uriBasename(uri)}`,
+            { viewColumn, preserveFocus: false },
+            { enableFindWidget: true, enableScripts: true }
+        );
+
+        const entry: FallbackPanel = { panel, uri };
+        this._panels.set(key, entry);
+
+        panel.onDidDispose(() => {
+            if (entry.renderTimeout) {
+                clearTimeout(entry.renderTimeout);
+            }
+            this._panels.delete(key);
+        });
+
+        await this.render(entry);
+    }
+
+    /**
+     * Scroll the fallback preview of a document to a heading anchor.
+     * Returns false if the document has no fallback preview.
+     */
+    scrollTo(uri: vscode.Uri, slug: string): boolean {
+        const entry = this._panels.get(uri.toString());
+        if (!entry) {
+            return false;
+        }
+        entry.panel.reveal(undefined, true);
+        entry.panel.webview.postMessage({ type: 'scrollTo', id: slug });
+        return true;
+    }
+
+    /**
+     * Check if a tab shows a fallback preview
+     */
+    isPreviewTab(tab: vscode.Tab): boolean {
+        return tab.input instanceof vscode.TabInputWebview &&
+            matchesViewType(tab.input.viewType, FallbackPreview.VIEW_TYPE);
+    }
+
+    /**
+     * Close every open fallback preview
+     */
+    closeAll(): void {
+        for (const entry of Array.from(this._panels.values())) {
+            entry.panel.dispose();
+        }
+    }
+
+    /**
+     * Debounce re-rendering while the user types
+     */
+    private scheduleRender(entry: FallbackPanel): void {
+        if (entry.renderTimeout) {
+            clearTimeout(entry.renderTimeout);
+        }
+        entry.renderTimeout = setTimeout(() => {
+            entry.renderTimeout = undefined;
+            this.render(entry);
+        }, this.RENDER_DEBOUNCE_MS);
+    }
+
+    /**
+     * Render the document into its panel
+     */
+    private async render(entry: FallbackPanel): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(entry.uri);
+            const body = renderFallbackHtml(document.getText(), document.languageId);
+            entry.panel.webview.html = this.getHtml(body);
+        } catch (error) {
+            logger.error('Failed to render fallback preview', error, { uri: entry.uri });
+        }
+    }
+
+    /**
+     * Wrap the rendered document in a page using the theme colors
+     */
+    private getHtml(body: string): string {
+        const nonce = randomBytes(16).toString('base64');
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src https: data:; script-src 'nonce-${nonce}';">
+    <style>
+        body { padding: 0 26px; line-height: 1.6; font-family: var(--vscode-markdown-font-family, var(--vscode-font-family)); }
+        h1, h2 { border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 0.3em; }
+        a { color: var(--vscode-textLink-foreground); }
+        code { font-family: var(--vscode-editor-font-family); background: var(--vscode-textCodeBlock-background); padding: 1px 3px; border-radius: 3px; }
+        pre { background: var(--vscode-textCodeBlock-background); padding: 12px 16px; overflow: auto; }
+        pre code { padding: 0; background: none; }
+        table { border-collapse: collapse; margin: 1em 0; }
+        th, td { border: 1px solid var(--vscode-panel-border); padding: 4px 10px; text-align: left; vertical-align: top; }
+        .title { font-weight: bold; margin-bottom: 0.2em; }
+        .fallback-notice { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+    </style>
+</head>
+<body>
+<p class="fallback-notice">Basic preview: install a preview extension for this language for full rendering.</p>
+${body}
+<script nonce="${nonce}">
+    window.addEventListener('message', event => {
+        if (event.data && event.data.type === 'scrollTo') {
+            document.getElementById(event.data.id)?.scrollIntoView({ block: 'start' });
+        }
+    });
+</script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        for (const entry of this._panels.values()) {
+            entry.panel.dispose();
+        }
+        this._panels.clear();
+        this._disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,554 @@
+import { createSlugger } from './headings';
+import { escapeHtml } from './html';
+
+/**
+ * Languages the built-in fallback preview can render
+ */
+export const FALLBACK_LANGUAGES: readonly string[] = ['asciidoc', 'restructuredtext'];
+
+/**
+ * An inline markup pattern and the HTML it produces
+ */
+interface InlineRule {
+    pattern: RegExp;
+    render: (match: RegExpExecArray) => string;
+}
+
+/**
+ * Render an AsciiDoc or reStructuredText document to an HTML fragment.
+ * Covers the common block types only: headings, paragraphs, lists,
+ * code blocks, tables, and inline emphasis, code and links.
+ */
+export function renderFallbackHtml(text: string, languageId: string): string {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    return languageId === 'restructuredtext' ? renderRestructuredText(lines) : renderAsciidoc(lines);
+}
+
+// Inline markup of AsciiDoc paragraphs, list items, table cells and titles
+const ASCIIDOC_INLINE: readonly InlineRule[] = [
+    { pattern: /`([^`]+)`/g, render: m => `<code>${escapeHtml(m[1])}</code>` },
+    { pattern: /(?:link:)?((?:https?:\/\/|mailto:)[^\s[\]]+)\[([^\]]*)\]/g, render: m => renderLink(m[1], m[2] || m[1]) },
+    { pattern: /link:([^\s[\]]+)\[([^\]]*)\]/g, render: m => renderLink(m[1], m[2] || m[1]) },
+    { pattern: /<<([^,>]+)(?:,\s*([^>]+))?>>/g, render: m => renderLink(`#${m[1]}`, m[2] ?? m[1]) },
+    { pattern: /https?:\/\/[^\s<>[\]]+[^\s<>[\].,;:!?)]/g, render: m => renderLink(m[0], m[0]) },
+    { pattern: /\*([^*\s](?:[^*]*[^*\s])?)\*/g, render: m => `<strong>${escapeHtml(m[1])}</strong>` },
+    { pattern: /\b_([^_\s](?:[^_]*[^_\s])?)_\b/g, render: m => `<em>${escapeHtml(m[1])}</em>` }
+];
+
+/**
+ * Render AsciiDoc blocks line by line
+ */
+function renderAsciidoc(lines: string[]): string {
+    const html: string[] = [];
+    const slug = createSlugger();
+    let paragraph: string[] = [];
+    let sourceLanguage: string | undefined;
+    let i = 0;
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            html.push(`<p>${renderInline(paragraph.join(' '), ASCIIDOC_INLINE)}</p>`);
+            paragraph = [];
+        }
+    };
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const trimmed = line.trim();
+
+        // Attribute entries, comments and block attributes produce no output
+        if (/^:[\w-]+:/.test(line) || /^\/\/(?!\/)/.test(line)) {
+            flushParagraph();
+            i++;
+            continue;
+        }
+        if (/^\[.*\]$/.test(trimmed)) {
+            flushParagraph();
+            sourceLanguage = /^\[source,\s*([\w+-]+)/.exec(trimmed)?.[1];
+            i++;
+            continue;
+        }
+
+        if (trimmed === '') {
+            flushParagraph();
+            i++;
+            continue;
+        }
+
+        // Block comments
+        if (/^\/{4,}$/.test(trimmed)) {
+            flushParagraph();
+            i = skipDelimited(lines, i, trimmed);
+            continue;
+        }
+
+        // Listing and literal blocks
+        if (/^(-{4,}|\.{4,})$/.test(trimmed)) {
+            flushParagraph();
+            const end = findDelimiter(lines, i + 1, trimmed);
+            html.push(renderCodeBlock(lines.slice(i + 1, end), sourceLanguage));
+            sourceLanguage = undefined;
+            i = end + 1;
+            continue;
+        }
+
+        // Tables
+        if (trimmed === '|===') {
+            flushParagraph();
+            const end = findDelimiter(lines, i + 1, trimmed);
+            html.push(renderAsciidocTable(lines.slice(i + 1, end)));
+            i = end + 1;
+            continue;
+        }
+
+        // Section titles
+        const heading = /^(={1,6})\s+(.+)$/.exec(line);
+        if (heading) {
+            flushParagraph();
+            html.push(renderHeading(heading[1].length, heading[2].trim(), slug, ASCIIDOC_INLINE));
+            i++;
+            continue;
+        }
+
+        // Lists
+        if (/^\s*(\*+|-|\.+|\d+\.)\s+/.test(line)) {
+            flushParagraph();
+            const items: string[] = [];
+            const ordered = /^\s*(\.+|\d+\.)\s+/.test(line);
+            while (i < lines.length && /^\s*(\*+|-|\.+|\d+\.)\s+/.test(lines[i])) {
+                items.push(lines[i].replace(/^\s*(\*+|-|\.+|\d+\.)\s+/, ''));
+                i++;
+            }
+            html.push(renderList(items, ordered, ASCIIDOC_INLINE));
+            continue;
+        }
+
+        // Block titles (".Title") render as a caption
+        if (/^\.[^\s.]/.test(line)) {
+            flushParagraph();
+            html.push(`<p class="title">${renderInline(line.slice(1), ASCIIDOC_INLINE)}</p>`);
+            i++;
+            continue;
+        }
+
+        paragraph.push(trimmed);
+        i++;
+    }
+
+    flushParagraph();
+    return html.join('\n');
+}
+
+/**
+ * Render the rows of a `|===` table. The first row is a header when it
+ * is written on one line and followed by a blank line.
+ */
+function renderAsciidocTable(lines: string[]): string {
+    const rows: string[][] = [];
+    let hasHeader = false;
+    let current: string[] | undefined;
+
+    lines.forEach((line, index) => {
+        const trimmed = line.trim();
+        if (trimmed === '') {
+            if (rows.length === 1 && index === 1) {
+                hasHeader = true;
+            }
+            current = undefined;
+            return;
+        }
+        const cells = trimmed.startsWith('|')
+            ? trimmed.slice(1).split('|').map(cell => cell.trim())
+            : [trimmed];
+
+        // One row per line unless cells continue a row started with fewer cells
+        if (current && rows.length > 0 && current.length < rows[0].length) {
+            current.push(...cells);
+        } else {
+            current = cells;
+            rows.push(current);
+        }
+    });
+
+    return renderTable(rows, hasHeader, ASCIIDOC_INLINE);
+}
+
+// Inline markup of reStructuredText paragraphs, list items, table cells and titles
+const RST_INLINE: readonly InlineRule[] = [
+    { pattern: /``([^`]+)``/g, render: m => `<code>${escapeHtml(m[1])}</code>` },
+    { pattern: /`([^`<]+?)\s*<([^>]+)>`__?/g, render: m => renderLink(m[2], m[1]) },
+    { pattern: /:\w+:`([^`]+)`/g, render: m => `<code>${escapeHtml(m[1])}</code>` },
+    { pattern: /https?:\/\/[^\s<>`]+[^\s<>`.,;:!?)]/g, render: m => renderLink(m[0], m[0]) },
+    { pattern: /\*\*([^*]+)\*\*/g, render: m => `<strong>${escapeHtml(m[1])}</strong>` },
+    { pattern: /\*([^*\s](?:[^*]*[^*\s])?)\*/g, render: m => `<em>${escapeHtml(m[1])}</em>` },
+    { pattern: /`([^`]+)`_?/g, render: m => `<em>${escapeHtml(m[1])}</em>` }
+];
+
+// Characters allowed in section adornments
+const RST_ADORNMENT = /^([=\-~^"'`#*+:.<>_])\1+$/;
+
+/**
+ * Render reStructuredText blocks line by line
+ */
+function renderRestructuredText(lines: string[]): string {
+    const html: string[] = [];
+    const slug = createSlugger();
+    // Heading levels are assigned in the order adornment styles first appear
+    const headingStyles: string[] = [];
+    let paragraph: string[] = [];
+    let i = 0;
+
+    const flushParagraph = () => {
+        if (paragraph.length === 0) {
+            return;
+        }
+        let text = paragraph.join(' ');
+        const literalFollows = text.endsWith('::');
+        if (literalFollows) {
+            // "Paragraph::" keeps one colon; a lone "::" disappears
+            text = text === '::' ? '' : text.replace(/\s*::$/, text.endsWith(' ::') ? '' : ':');
+        }
+        if (text) {
+            html.push(`<p>${renderInline(text, RST_INLINE)}</p>`);
+        }
+        paragraph = [];
+        if (literalFollows) {
+            const block = readIndentedBlock(lines, i);
+            if (block.lines.length > 0) {
+                html.push(renderCodeBlock(block.lines, undefined));
+                i = block.end;
+            }
+        }
+    };
+
+    const headingLevel = (style: string) => {
+        if (!headingStyles.includes(style)) {
+            headingStyles.push(style);
+        }
+        return Math.min(headingStyles.indexOf(style) + 1, 6);
+    };
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const trimmed = line.trim();
+        const next = lines[i + 1] ?? '';
+
+        if (trimmed === '') {
+            // A paragraph ending in "::" consumes the literal block after it
+            const before = i;
+            flushParagraph();
+            if (i === before) {
+                i++;
+            }
+            continue;
+        }
+
+        // Title with overline and underline
+        if (RST_ADORNMENT.test(trimmed) && lines[i + 1]?.trim() && RST_ADORNMENT.test(lines[i + 2]?.trim() ?? '') && paragraph.length === 0) {
+            const title = lines[i + 1].trim();
+            if (lines[i + 2].trim()[0] === trimmed[0] && trimmed.length >= title.length) {
+                html.push(renderHeading(headingLevel(`over${trimmed[0]}`), title, slug, RST_INLINE));
+                i += 3;
+                continue;
+            }
+        }
+
+        // Transitions
+        if (RST_ADORNMENT.test(trimmed) && trimmed.length >= 4 && paragraph.length === 0 && next.trim() === '') {
+            html.push('<hr>');
+            i++;
+            continue;
+        }
+
+        // Title with underline only
+        if (paragraph.length === 0 && !RST_ADORNMENT.test(trimmed) && RST_ADORNMENT.test(next.trim()) &&
+            next.trim().length >= trimmed.length && !line.startsWith(' ')) {
+            html.push(renderHeading(headingLevel(next.trim()[0]), trimmed, slug, RST_INLINE));
+            i += 2;
+            continue;
+        }
+
+        // Grid tables
+        if (/^\+[-=+]+\+$/.test(trimmed) && paragraph.length === 0) {
+            let end = i;
+            while (end < lines.length && /^[+|]/.test(lines[end].trim())) {
+                end++;
+            }
+            html.push(renderGridTable(lines.slice(i, end).map(l => l.trim())));
+            i = end;
+            continue;
+        }
+
+        // Simple tables
+        if (/^=+( +=+)+$/.test(trimmed) && paragraph.length === 0) {
+            const end = findSimpleTableEnd(lines, i);
+            html.push(renderSimpleTable(lines.slice(i, end)));
+            i = end;
+            continue;
+        }
+
+        // Code directives
+        const code = /^\.\.\s+(?:code-block|code|sourcecode)::\s*(\S*)/.exec(trimmed);
+        if (code) {
+            flushParagraph();
+            const block = readIndentedBlock(lines, i + 1, true);
+            html.push(renderCodeBlock(block.lines, code[1] || undefined));
+            i = block.end;
+            continue;
+        }
+
+        // Other directives, comments and link targets produce no output
+        if (trimmed.startsWith('..')) {
+            flushParagraph();
+            i = readIndentedBlock(lines, i + 1, true).end;
+            continue;
+        }
+
+        // Field lists at the top of a document (e.g. ":preview: off") are metadata
+        if (/^:[\w -]+:(\s|$)/.test(trimmed) && paragraph.length === 0) {
+            i++;
+            continue;
+        }
+
+        // Lists
+        const bullet = /^\s*([-*+]|\d+\.|#\.|[a-z]\.|\(\d+\))\s+/;
+        if (bullet.test(line) && paragraph.length === 0) {
+            const isOrdered = (text: string) => !/^\s*[-*+]\s/.test(text);
+            const ordered = isOrdered(line);
+            const sameList = (text: string) => bullet.test(text) && isOrdered(text) === ordered;
+            const items: string[] = [];
+            while (i < lines.length) {
+                if (sameList(lines[i])) {
+                    items.push(lines[i].replace(bullet, ''));
+                } else if (lines[i].trim() !== '' && /^\s+/.test(lines[i]) && !bullet.test(lines[i])) {
+                    // Continuation line of the previous item
+                    items[items.length - 1] += ` ${lines[i].trim()}`;
+                } else if (!(lines[i].trim() === '' && sameList(lines[i + 1] ?? ''))) {
+                    break;
+                }
+                i++;
+            }
+            html.push(renderList(items, ordered, RST_INLINE));
+            continue;
+        }
+
+        paragraph.push(trimmed);
+        i++;
+    }
+
+    flushParagraph();
+    return html.join('\n');
+}
+
+/**
+ * Read the indented block starting at a line, skipping leading blank lines.
+ * With `allowOptions`, directive options (":linenos:") right after the directive are skipped.
+ */
+function readIndentedBlock(lines: string[], start: number, allowOptions = false): { lines: string[]; end: number } {
+    let i = start;
+    if (allowOptions) {
+        while (i < lines.length && /^\s+:[\w-]+:/.test(lines[i])) {
+            i++;
+        }
+    }
+    while (i < lines.length && lines[i].trim() === '') {
+        i++;
+    }
+
+    const block: string[] = [];
+    while (i < lines.length && (lines[i].trim() === '' || /^\s/.test(lines[i]))) {
+        block.push(lines[i]);
+        i++;
+    }
+    while (block.length > 0 && block[block.length - 1].trim() === '') {
+        block.pop();
+    }
+
+    if (block.length === 0) {
+        return { lines: [], end: start };
+    }
+
+    const indent = Math.min(...block.filter(l => l.trim() !== '').map(l => /^\s*/.exec(l)?.[0].length ?? 0));
+    return { lines: block.map(l => l.slice(indent)), end: i };
+}
+
+/**
+ * Render a grid table; a `+===+` line ends the header rows
+ */
+function renderGridTable(lines: string[]): string {
+    const rows: string[][] = [];
+    let hasHeader = false;
+    let current: string[] | undefined;
+
+    for (const line of lines) {
+        if (line.startsWith('+')) {
+            if (line.includes('=')) {
+                hasHeader = true;
+            }
+            current = undefined;
+            continue;
+        }
+        const cells = line.replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+        if (current) {
+            // Multi-line cells: join each column's text
+            const row = current;
+            cells.forEach((cell, index) => {
+                row[index] = [row[index], cell].filter(Boolean).join(' ');
+            });
+        } else {
+            current = cells;
+            rows.push(current);
+        }
+    }
+
+    return renderTable(rows, hasHeader, RST_INLINE);
+}
+
+/**
+ * Index of the line after a simple table: its closing border, or the next
+ * blank line after the last border when the table has no closing border
+ */
+function findSimpleTableEnd(lines: string[], start: number): number {
+    let borders = 0;
+    for (let i = start; i < lines.length; i++) {
+        if (/^=+( +=+)+$/.test(lines[i].trim())) {
+            borders++;
+            if (borders === 3) {
+                return i + 1;
+            }
+        } else if (lines[i].trim() === '' && borders >= 2 && !/^=+( +=+)+$/.test(lines[i + 1]?.trim() ?? '')) {
+            return i;
+        }
+    }
+    return lines.length;
+}
+
+/**
+ * Render a simple table, splitting columns at the gaps of its border line.
+ * With three borders, rows above the middle border are headers.
+ */
+function renderSimpleTable(lines: string[]): string {
+    const border = lines[0];
+    const columns: [number, number][] = [];
+    const columnPattern = /=+/g;
+    let match: RegExpExecArray | null;
+    while ((match = columnPattern.exec(border)) !== null) {
+        columns.push([match.index, match.index + match[0].length]);
+    }
+
+    const borderIndexes = lines
+        .map((line, index) => (/^=+( +=+)+$/.test(line.trim()) ? index : -1))
+        .filter(index => index >= 0);
+    const hasHeader = borderIndexes.length >= 3;
+
+    const rows: string[][] = [];
+    lines.forEach((line, index) => {
+        if (borderIndexes.includes(index) || line.trim() === '') {
+            return;
+        }
+        rows.push(columns.map(([start, end], column) =>
+            line.slice(start, column === columns.length - 1 ? undefined : Math.max(end, columns[column + 1][0])).trim()
+        ));
+    });
+
+    return renderTable(rows, hasHeader && rows.length > 0, RST_INLINE);
+}
+
+/**
+ * Heading with an anchor ID, so outline entries can link to it
+ */
+function renderHeading(level: number, title: string, slug: (title: string) => string, rules: readonly InlineRule[]): string {
+    return `<h${level} id="${escapeHtml(slug(title))}">${renderInline(title, rules)}</h${level}>`;
+}
+
+/**
+ * Flat bulleted or numbered list
+ */
+function renderList(items: string[], ordered: boolean, rules: readonly InlineRule[]): string {
+    const tag = ordered ? 'ol' : 'ul';
+    return `<${tag}>\n${items.map(item => `<li>${renderInline(item, rules)}</li>`).join('\n')}\n</${tag}>`;
+}
+
+/**
+ * Preformatted code block, tagged with its language when known
+ */
+function renderCodeBlock(lines: string[], language: string | undefined): string {
+    const languageClass = language ? ` class="language-${escapeHtml(language)}"` : '';
+    return `<pre><code${languageClass}>${escapeHtml(lines.join('\n'))}</code></pre>`;
+}
+
+/**
+ * Table from parsed cell text, optionally with a header row
+ */
+function renderTable(rows: string[][], hasHeader: boolean, rules: readonly InlineRule[]): string {
+    if (rows.length === 0) {
+        return '';
+    }
+    const [head, ...body] = hasHeader ? rows : [undefined, ...rows];
+    const renderRow = (cells: string[], tag: 'th' | 'td') =>
+        `<tr>${cells.map(cell => `<${tag}>${renderInline(cell, rules)}</${tag}>`).join('')}</tr>`;
+
+    return [
+        '<table>',
+        head ? `<thead>${renderRow(head, 'th')}</thead>` : '',
+        `<tbody>\n${body.map(row => renderRow(row!, 'td')).join('\n')}\n</tbody>`,
+        '</table>'
+    ].filter(Boolean).join('\n');
+}
+
+/**
+ * Link with an escaped target; script and data URLs are rendered as text
+ */
+function renderLink(target: string, text: string): string {
+    if (/^\s*(javascript|data|vbscript):/i.test(target)) {
+        return escapeHtml(text);
+    }
+    return `<a href="${escapeHtml(target)}">${escapeHtml(text)}</a>`;
+}
+
+/**
+ * Render inline markup: at each position the earliest matching rule wins,
+ * and text between matches is escaped
+ */
+function renderInline(text: string, rules: readonly InlineRule[]): string {
+    let html = '';
+    let position = 0;
+
+    while (position < text.length) {
+        let best: { match: RegExpExecArray; rule: InlineRule } | undefined;
+        for (const rule of rules) {
+            rule.pattern.lastIndex = position;
+            const match = rule.pattern.exec(text);
+            if (match && (!best || match.index < best.match.index)) {
+                best = { match, rule };
+            }
+        }
+
+        if (!best) {
+            break;
+        }
+        html += escapeHtml(text.slice(position, best.match.index)) + best.rule.render(best.match);
+        position = best.match.index + best.match[0].length;
+    }
+
+    return html + escapeHtml(text.slice(position));
+}
+
+/**
+ * Index of the closing delimiter line of a delimited block, or the end of the document
+ */
+function findDelimiter(lines: string[], start: number, delimiter: string): number {
+    for (let i = start; i < lines.length; i++) {
+        if (lines[i].trim() === delimiter) {
+            return i;
+        }
+    }
+    return lines.length;
+}
+
+/**
+ * Index of the line after a delimited block
+ */
+function skipDelimited(lines: string[], start: number, delimiter: string): number {
+    return findDelimiter(lines, start + 1, delimiter) + 1;
+}
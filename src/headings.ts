@@ -0,0 +1,194 @@
+/**
+ * A section heading of a previewable document
+ */
+export interface DocumentHeading {
+    /** Heading level, 1 for the document title */
+    level: number;
+    /** Heading text without inline markup */
+    text: string;
+    /** Zero-based line of the heading text in the source */
+    line: number;
+    /** Anchor of the heading in the preview, unique within the document */
+    slug: string;
+    /** Headings nested under this one */
+    children: DocumentHeading[];
+}
+
+/**
+ * Anchor ID of a heading, e.g. "Getting Started" → "getting-started"
+ */
+export function headingSlug(title: string): string {
+    return title
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+        .trim()
+        .replace(/\s+/g, '-');
+}
+
+/**
+ * Create a slug function for the headings of one document. Inline markup is
+ * ignored and repeated headings are numbered like the markdown preview does:
+ * "usage", "usage-1", "usage-2".
+ */
+export function createSlugger(): (title: string) => string {
+    const counts = new Map<string, number>();
+    return title => {
+        const slug = headingSlug(stripInlineMarkup(title));
+        const count = counts.get(slug) ?? 0;
+        counts.set(slug, count + 1);
+        return count === 0 ? slug : `${slug}-${count}`;
+    };
+}
+
+// Characters allowed in reStructuredText section adornments
+const RST_ADORNMENT = /^([=\-~^"'`#*+:.<>_])\1+$/;
+
+/**
+ * Find the headings of a Markdown, AsciiDoc or reStructuredText document,
+ * nested by level. Headings inside code blocks are ignored.
+ */
+export function parseHeadings(text: string, languageId: string): DocumentHeading[] {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const slug = createSlugger();
+    const flat = (languageId === 'asciidoc' ? findAsciidocHeadings(lines)
+        : languageId === 'restructuredtext' ? findRestructuredTextHeadings(lines)
+            : findMarkdownHeadings(lines))
+        .map(({ level, text, line }) => ({ level, text: stripInlineMarkup(text), line, slug: slug(text), children: [] }));
+    return nestHeadings(flat);
+}
+
+/**
+ * Nest a flat list of headings: each heading becomes a child of the
+ * closest preceding heading with a lower level
+ */
+export function nestHeadings(headings: DocumentHeading[]): DocumentHeading[] {
+    const roots: DocumentHeading[] = [];
+    const stack: DocumentHeading[] = [];
+
+    for (const heading of headings) {
+        while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+            stack.pop();
+        }
+        (stack.length > 0 ? stack[stack.length - 1].children : roots).push(heading);
+        stack.push(heading);
+    }
+    return roots;
+}
+
+type RawHeading = Pick<DocumentHeading, 'level' | 'text' | 'line'>;
+
+/**
+ * ATX (`## Title`) and setext (underlined) headings, outside front matter and fenced code
+ */
+function findMarkdownHeadings(lines: string[]): RawHeading[] {
+    const headings: RawHeading[] = [];
+    let fence: string | undefined;
+    let i = 0;
+
+    // Front matter
+    if (lines[0]?.trim() === '---') {
+        const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+        i = end > 0 ? end + 1 : 0;
+    }
+
+    for (; i < lines.length; i++) {
+        const line = lines[i];
+        const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+        if (fenceMatch) {
+            if (!fence) {
+                fence = fenceMatch[1];
+            } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+                fence = undefined;
+            }
+            continue;
+        }
+        if (fence) {
+            continue;
+        }
+
+        const atx = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/.exec(line);
+        if (atx) {
+            headings.push({ level: atx[1].length, text: atx[2] ?? '', line: i });
+            continue;
+        }
+
+        const next = lines[i + 1] ?? '';
+        const previous = lines[i - 1] ?? '';
+        if (line.trim() && !previous.trim() && /^ {0,3}(=+|-+)\s*$/.test(next) && !/^\s*([-*+>]|\d+\.)\s/.test(line)) {
+            headings.push({ level: next.trim()[0] === '=' ? 1 : 2, text: line.trim(), line: i });
+            i++;
+        }
+    }
+    return headings;
+}
+
+/**
+ * `= Title` section headings, outside listing, literal and comment blocks
+ */
+function findAsciidocHeadings(lines: string[]): RawHeading[] {
+    const headings: RawHeading[] = [];
+    let delimiter: string | undefined;
+
+    lines.forEach((line, i) => {
+        const trimmed = line.trim();
+        if (/^(-{4,}|\.{4,}|\/{4,}|\+{4,})$/.test(trimmed)) {
+            delimiter = delimiter === undefined ? trimmed : (delimiter === trimmed ? undefined : delimiter);
+            return;
+        }
+        if (delimiter) {
+            return;
+        }
+
+        const heading = /^(={1,6})\s+(.+)$/.exec(line);
+        if (heading) {
+            headings.push({ level: heading[1].length, text: heading[2].trim(), line: i });
+        }
+    });
+    return headings;
+}
+
+/**
+ * Underlined (and optionally overlined) section titles. Levels follow the
+ * order in which adornment styles first appear, as in docutils.
+ */
+function findRestructuredTextHeadings(lines: string[]): RawHeading[] {
+    const headings: RawHeading[] = [];
+    const styles: string[] = [];
+    const level = (style: string) => {
+        if (!styles.includes(style)) {
+            styles.push(style);
+        }
+        return styles.indexOf(style) + 1;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const trimmed = lines[i].trim();
+        const next = lines[i + 1]?.trim() ?? '';
+        const afterNext = lines[i + 2]?.trim() ?? '';
+
+        if (RST_ADORNMENT.test(trimmed) && next && !RST_ADORNMENT.test(next) &&
+            RST_ADORNMENT.test(afterNext) && afterNext[0] === trimmed[0] && trimmed.length >= next.length) {
+            headings.push({ level: level(`over${trimmed[0]}`), text: next, line: i + 1 });
+            i += 2;
+            continue;
+        }
+
+        if (trimmed && !RST_ADORNMENT.test(trimmed) && !/^\s/.test(lines[i]) && (lines[i - 1]?.trim() ?? '') === '' &&
+            RST_ADORNMENT.test(next) && next.length >= trimmed.length) {
+            headings.push({ level: level(next[0]), text: trimmed, line: i });
+            i++;
+        }
+    }
+    return headings;
+}
+
+/**
+ * Heading text as displayed: links reduced to their text, emphasis and code markers removed
+ */
+function stripInlineMarkup(text: string): string {
+    return text
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/`([^`<]+?)\s*<[^>]+>`__?/g, '$1')
+        .replace(/(^|\W)([*_`]+)([^*_`]+)\2(?=\W|$)/g, '$1$3')
+        .trim();
+}
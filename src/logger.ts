@@ -1,71 +1,137 @@
 import * as vscode from 'vscode';
+import { LogLevel } from './types';
+import { uriDisplayPath } from './uriUtils';
+
+/**
+ * Structured context attached to a log message
+ */
+export interface LogFields {
+    /** Document the message is about */
+    uri?: vscode.Uri;
+    /** Language ID of the document */
+    language?: string;
+    /** Decision taken, e.g. "open", "skip: excluded by rules" */
+    decision?: string;
+}
+
+// Verbosity of each level; a message is logged when its level is at or below the configured one
+const LEVEL_ORDER: Record<LogLevel, number> = {
+    off: 0,
+    error: 1,
+    warn: 2,
+    info: 3,
+    debug: 4,
+    trace: 5
+};
 
 /**
  * Centralized logging utility for the extension.
- * Provides an output channel for debugging and consistent log formatting.
+ * Writes to a log output channel, filtered by the `previewMarkdown.logLevel` setting.
+ *
+ * The channel applies its own level on top, Info unless changed from the
+ * Output view, which extensions cannot set. Debug and trace messages the
+ * channel would drop are written at info level with a `[debug]`/`[trace]` tag,
+ * so the setting alone decides what is logged.
  */
-class Logger {
-    private _outputChannel: vscode.OutputChannel | undefined;
+export class Logger {
+    private _outputChannel: vscode.LogOutputChannel | undefined;
     private _enabled: boolean = true;
+    private _level: LogLevel = 'info';
+
+    constructor(
+        private readonly createChannel: () => vscode.LogOutputChannel = () =>
+            vscode.window.createOutputChannel('Auto Preview Markdown', { log: true })
+    ) { }
 
     /** Get or create the output channel */
-    private get outputChannel(): vscode.OutputChannel {
+    private get outputChannel(): vscode.LogOutputChannel {
         if (!this._outputChannel) {
-            this._outputChannel = vscode.window.createOutputChannel('Auto Preview Markdown');
+            this._outputChannel = this.createChannel();
         }
         return this._outputChannel;
     }
 
-    /** Enable or disable logging */
+    /** Configured log level */
+    get level(): LogLevel {
+        return this._level;
+    }
+
+    /** Set the most verbose level that is logged */
+    setLevel(level: LogLevel): void {
+        this._level = level in LEVEL_ORDER ? level : 'info';
+    }
+
+    /** Enable or disable logging. When enabled, the configured level applies. */
     setEnabled(enabled: boolean): void {
         this._enabled = enabled;
     }
 
-    /** Log an informational message */
-    info(message: string, ...args: unknown[]): void {
-        if (!this._enabled) return;
-        const formatted = this.format('INFO', message, args);
-        this.outputChannel.appendLine(formatted);
-        console.log(`[Auto Preview] ${message}`, ...args);
+    /** Check if messages of a level are currently logged */
+    isLevelEnabled(level: LogLevel): boolean {
+        return this._enabled && level !== 'off' && LEVEL_ORDER[level] <= LEVEL_ORDER[this._level];
+    }
+
+    /** Log an error message */
+    error(message: string, error?: unknown, fields?: LogFields): void {
+        if (!this.isLevelEnabled('error')) {
+            return;
+        }
+        this.outputChannel.error(formatMessage(message, fields));
+        if (error instanceof Error) {
+            this.outputChannel.error(error);
+        } else if (error !== undefined) {
+            this.outputChannel.error(`  ${String(error)}`);
+        }
     }
 
     /** Log a warning message */
-    warn(message: string, ...args: unknown[]): void {
-        if (!this._enabled) return;
-        const formatted = this.format('WARN', message, args);
-        this.outputChannel.appendLine(formatted);
-        console.warn(`[Auto Preview] ${message}`, ...args);
+    warn(message: string, fields?: LogFields): void {
+        if (this.isLevelEnabled('warn')) {
+            this.outputChannel.warn(formatMessage(message, fields));
+        }
     }
 
-    /** Log an error message */
-    error(message: string, error?: unknown): void {
-        const formatted = this.format('ERROR', message, error ? [error] : []);
-        this.outputChannel.appendLine(formatted);
-        console.error(`[Auto Preview] ${message}`, error);
+    /** Log an informational message */
+    info(message: string, fields?: LogFields): void {
+        if (this.isLevelEnabled('info')) {
+            this.outputChannel.info(formatMessage(message, fields));
+        }
+    }
 
-        // For significant errors, also show in the output channel
-        if (error instanceof Error) {
-            this.outputChannel.appendLine(`  Stack: ${error.stack}`);
+    /** Log a debug message */
+    debug(message: string, fields?: LogFields): void {
+        if (this.isLevelEnabled('debug')) {
+            this.writeVerbose('debug', formatMessage(message, fields));
         }
     }
 
-    /** Log a debug message (only in development) */
-    debug(message: string, ...args: unknown[]): void {
-        if (!this._enabled) return;
-        // Only log to console in debug mode
-        console.log(`[Auto Preview Debug] ${message}`, ...args);
+    /** Log a detailed trace message */
+    trace(message: string, fields?: LogFields): void {
+        if (this.isLevelEnabled('trace')) {
+            this.writeVerbose('trace', formatMessage(message, fields));
+        }
     }
 
-    /** Format a log message with timestamp */
-    private format(level: string, message: string, args: unknown[]): string {
-        const timestamp = new Date().toISOString();
-        const argsStr = args.length > 0 ? ` ${JSON.stringify(args)}` : '';
-        return `[${timestamp}] [${level}] ${message}${argsStr}`;
+    /**
+     * Write a debug or trace message at its own level if the channel shows
+     * that level, otherwise at info level with a level tag
+     */
+    private writeVerbose(level: 'debug' | 'trace', message: string): void {
+        const channel = this.outputChannel;
+        const channelLevel = channel.logLevel;
+        const shown = channelLevel !== vscode.LogLevel.Off &&
+            channelLevel <= (level === 'debug' ? vscode.LogLevel.Debug : vscode.LogLevel.Trace);
+
+        if (shown) {
+            channel[level](message);
+        } else {
+            channel.info(`[${level}] ${message}`);
+        }
     }
 
     /** Show the output channel to the user */
     show(): void {
-        this.outputChannel.show();
+        this.outputChannel.show(true);
     }
 
     /** Dispose the output channel */
@@ -75,5 +141,26 @@ class Logger {
     }
 }
 
+/**
+ * Append structured fields to a message, e.g. `Opened preview uri=/docs/a.md language=markdown`
+ */
+export function formatMessage(message: string, fields?: LogFields): string {
+    if (!fields) {
+        return message;
+    }
+
+    const parts = [message];
+    if (fields.uri) {
+        parts.push(`uri=${uriDisplayPath(fields.uri)}`);
+    }
+    if (fields.language) {
+        parts.push(`language=${fields.language}`);
+    }
+    if (fields.decision) {
+        parts.push(`decision=${fields.decision}`);
+    }
+    return parts.join(' ');
+}
+
 /** Singleton logger instance */
 export const logger = new Logger();
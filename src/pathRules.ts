@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import { PathRule, PathRuleAction } from './types';
+import { logger } from './logger';
+
+/**
+ * Evaluates include/exclude glob rules against workspace-relative paths.
+ * Decides whether a document is auto-previewed, skipped, or opened in reader mode.
+ *
+ * Evaluation order:
+ * 1. The first matching exclude rule wins (default action: skip)
+ * 2. The first matching include rule wins (default action: preview)
+ * 3. If include rules exist but none matched, the document is skipped
+ * 4. Otherwise the document is previewed
+ *
+ * Invalid patterns are reported once and ignored, as if the rule were absent.
+ */
+export class PathRuleMatcher {
+    // Compiled patterns, keyed by glob source; undefined for invalid patterns
+    private _cache: Map<string, RegExp | undefined> = new Map();
+
+    /**
+     * Resolve the action for a URI given include and exclude rule lists.
+     */
+    resolve(uri: vscode.Uri, include: PathRule[], exclude: PathRule[]): PathRuleAction {
+        if (include.length === 0 && exclude.length === 0) {
+            return 'preview';
+        }
+        return this.resolvePath(this.getRelativePath(uri), include, exclude);
+    }
+
+    /**
+     * Resolve the action for an already workspace-relative path.
+     */
+    resolvePath(relativePath: string, include: PathRule[], exclude: PathRule[]): PathRuleAction {
+        const excluded = this.findMatch(relativePath, exclude);
+        if (excluded) {
+            return excluded.action ?? 'skip';
+        }
+
+        const included = this.findMatch(relativePath, include);
+        if (included) {
+            return included.action ?? 'preview';
+        }
+
+        return include.some(rule => this.compile(normalizeRule(rule)?.pattern)) ? 'skip' : 'preview';
+    }
+
+    /**
+     * Check if a relative path matches a glob pattern.
+     * An invalid pattern matches nothing.
+     */
+    matches(relativePath: string, pattern: string): boolean {
+        return this.compile(pattern)?.test(relativePath) ?? false;
+    }
+
+    /**
+     * Compile a pattern once; invalid patterns are logged the first time they are seen
+     */
+    private compile(pattern: string | undefined): RegExp | undefined {
+        if (!pattern) {
+            return undefined;
+        }
+        if (!this._cache.has(pattern)) {
+            let regex: RegExp | undefined;
+            try {
+                regex = globToRegExp(pattern);
+            } catch (error) {
+                logger.warn(`Ignoring invalid include/exclude pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`);
+            }
+            this._cache.set(pattern, regex);
+        }
+        return this._cache.get(pattern);
+    }
+
+    /**
+     * Find the first rule matching the path, normalized to object form
+     */
+    private findMatch(
+        relativePath: string,
+        rules: PathRule[]
+    ): { pattern: string; action?: PathRuleAction } | undefined {
+        for (const rule of rules) {
+            const normalized = normalizeRule(rule);
+            if (normalized?.pattern && this.matches(relativePath, normalized.pattern)) {
+                return normalized;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Get the workspace-relative path of a URI using forward slashes.
+     * Files outside the workspace are matched by their full path.
+     */
+    private getRelativePath(uri: vscode.Uri): string {
+        return vscode.workspace.asRelativePath(uri, false).replace(/\\/g, '/');
+    }
+}
+
+/**
+ * A rule in object form; string rules are bare patterns
+ */
+function normalizeRule(rule: PathRule): { pattern: string; action?: PathRuleAction } | undefined {
+    return typeof rule === 'string' ? { pattern: rule } : rule;
+}
+
+/**
+ * Convert a glob pattern to a regular expression.
+ * Throws on patterns that do not compile, e.g. an unclosed `{` or a reversed `[z-a]` range.
+ * Supports `**`, `*`, `?`, `{a,b}` alternation and `[...]` character classes.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let inGroup = false;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        switch (char) {
+            case '*':
+                if (glob[i + 1] === '*') {
+                    // "**/" matches zero or more directories, a trailing "**" matches everything
+                    if (glob[i + 2] === '/') {
+                        source += '(?:.*/)?';
+                        i += 2;
+                    } else {
+                        source += '.*';
+                        i += 1;
+                    }
+                } else {
+                    source += '[^/]*';
+                }
+                break;
+            case '?':
+                source += '[^/]';
+                break;
+            case '{':
+                inGroup = true;
+                source += '(?:';
+                break;
+            case '}':
+                if (inGroup) {
+                    inGroup = false;
+                    source += ')';
+                } else {
+                    source += '\\}';
+                }
+                break;
+            case ',':
+                source += inGroup ? '|' : ',';
+                break;
+            case '[': {
+                const end = glob.indexOf(']', i + 1);
+                if (end === -1) {
+                    source += '\\[';
+                    break;
+                }
+                let range = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+                if (range.startsWith('!')) {
+                    range = '^' + range.slice(1);
+                }
+                source += `[${range}]`;
+                i = end;
+                break;
+            }
+            default:
+                source += char.replace(/[.+^$()|\\/]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
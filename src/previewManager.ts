@@ -1,10 +1,80 @@
 import * as vscode from 'vscode';
 import { ConfigManager } from './configManager';
 import { DiffDetector } from './diffDetector';
-import { TabTracker } from './tabTracker';
-import { SupportedLanguage, PREVIEW_COMMANDS, FILE_EXTENSIONS } from './types';
+import { TabTracker, pickPreviewsToEvict } from './tabTracker';
+import { matchesViewType } from './providerRegistry';
+import { PathRuleMatcher } from './pathRules';
+import { ReaderHistory } from './readerHistory';
+import { RedlinePreview } from './redlinePreview';
+import { DecisionLog } from './decisionLog';
+import { ProviderCapabilities } from './providerCapabilities';
+import { FallbackPreview } from './fallbackPreview';
+import { SupportedLanguage, PathRuleAction, PreviewProvider, ExtensionConfig, DecisionKind, DecisionOutcome, OpenPreviewOptions, PreviewLayout, TrackedPreview, PreviewDirective } from './types';
 import { logger } from './logger';
-import * as path from 'path';
+import { uriBasename, uriExtname } from './uriUtils';
+import { readPreviewDirective } from './directives';
+
+/** Settings PreviewManager reads */
+export type PreviewSettings = Pick<ConfigManager, 'providers' | 'getConfigFor' | 'isLanguageEnabled'>;
+
+/** Diff lookups PreviewManager uses */
+export type DiffViews = Pick<DiffDetector, 'isDiffEditor' | 'isDocumentInDiffView' | 'findDiffTab' | 'getDiffKey'>;
+
+/** Preview registry operations PreviewManager uses */
+export type PreviewTabs = Pick<TabTracker,
+    'trackedPreviews' | 'getTrackedPreview' | 'findByTab' | 'isPreviewOpen' | 'isSupported' | 'getPreviewTabs' |
+    'openAndTrack' | 'untrack' | 'closePreviewForFile' | 'cleanupDebounceMap'>;
+
+/** Redline views PreviewManager opens and closes for diffs */
+export type RedlineViews = Pick<RedlinePreview, 'isOpen' | 'show' | 'close'>;
+
+/** Provider availability checks PreviewManager relies on */
+export type ProviderAvailability = Pick<ProviderCapabilities, 'isAvailable' | 'refresh' | 'reportMissing'>;
+
+/** Fallback preview operations PreviewManager uses */
+export type FallbackPreviews = Pick<FallbackPreview, 'supports' | 'getProvider' | 'scrollTo' | 'isPreviewTab' | 'closeAll'>;
+
+/**
+ * Editor events PreviewManager reacts to, and the editor calls it makes on them
+ */
+export interface EditorHost {
+    onDidOpenTextDocument: vscode.Event<vscode.TextDocument>;
+    onDidSaveTextDocument: vscode.Event<vscode.TextDocument>;
+    onDidCloseTextDocument: vscode.Event<vscode.TextDocument>;
+    onDidChangeActiveTextEditor: vscode.Event<vscode.TextEditor | undefined>;
+    onDidChangeTabs: vscode.Event<vscode.TabChangeEvent>;
+    onDidChangeTabGroups: vscode.Event<vscode.TabGroupChangeEvent>;
+    openTextDocument(uri: vscode.Uri): Thenable<vscode.TextDocument>;
+    showInformationMessage(message: string, ...items: string[]): Thenable<string | undefined>;
+}
+
+/**
+ * The VS Code window and workspace
+ */
+function windowHost(): EditorHost {
+    return {
+        onDidOpenTextDocument: vscode.workspace.onDidOpenTextDocument,
+        onDidSaveTextDocument: vscode.workspace.onDidSaveTextDocument,
+        onDidCloseTextDocument: vscode.workspace.onDidCloseTextDocument,
+        onDidChangeActiveTextEditor: vscode.window.onDidChangeActiveTextEditor,
+        onDidChangeTabs: vscode.window.tabGroups.onDidChangeTabs,
+        onDidChangeTabGroups: vscode.window.tabGroups.onDidChangeTabGroups,
+        openTextDocument: uri => vscode.workspace.openTextDocument(uri),
+        showInformationMessage: (message, ...items) => vscode.window.showInformationMessage(message, ...items)
+    };
+}
+
+/** viewType of the built-in markdown preview, which scrolls to the fragment of the URI it is opened with */
+const MARKDOWN_PREVIEW_VIEW_TYPE = 'markdown.preview';
+
+/**
+ * A preview open request; manual requests come from commands or the extension API
+ */
+interface OpenRequest extends OpenPreviewOptions {
+    manual?: boolean;
+    /** Reader-history step this open performs; the history moves only once the preview is open */
+    historyStep?: 'back' | 'forward';
+}
 
 /**
  * Core manager for handling markdown preview opening and closing.
@@ -13,7 +83,16 @@ import * as path from 'path';
  * - Auto-close preview when source file closes
  * - Git diff awareness (skip preview in diff mode)
  * - Preview-only mode (hide source editor)
+ * - Follow mode (one preview that retargets to the active editor)
+ * - A cap on open previews, closing the least recently viewed automatic one
+ * - Size thresholds that ask before previewing large documents
+ * - In-document directives (`preview: reader | side | off`), re-evaluated on save
  * - Preserve focus (keep cursor in source)
+ * - Layouts: beside, in the same group, below the source, in a fixed column or in a shared preview group
+ * - Include/exclude glob rules (per-file preview, skip or reader mode)
+ * - Back/forward history for documents read in preview-only mode
+ * - Side-by-side or redline previews of markdown diffs
+ * - Every open/close decision is recorded with its reason in the DecisionLog
  */
 export class PreviewManager implements vscode.Disposable {
     private _disposables: vscode.Disposable[] = [];
@@ -21,19 +100,61 @@ export class PreviewManager implements vscode.Disposable {
     // Track documents we've already opened previews for to avoid duplicates
     private _openedPreviews: Set<string> = new Set();
 
+    // Side-by-side diff previews: diff key → [original, modified] source URIs
+    private _diffPreviews: Map<string, vscode.Uri[]> = new Map();
+
     // Track URIs closed by preview-only mode (to prevent auto-close from killing preview)
     private _previewOnlyClosedUris: Set<string> = new Set();
 
+    // Large documents the user chose to always preview this session
+    private _largeFilesAllowed: Set<string> = new Set();
+
+    // Documents the extension is opening to preview them itself
+    private _requestedOpens: Set<string> = new Set();
+
+    // Large documents with an "Open preview anyway?" notification showing
+    private _largeFilePrompts: Set<string> = new Set();
+
+    // Last preview directive read from each document, to detect changes on save
+    private _directives: Map<string, PreviewDirective | undefined> = new Map();
+
+    // Documents another extension asked not to auto-preview (extension API)
+    private _suppressedUris: Set<string> = new Set();
+
+    // Editor groups created by the "below" layout, keyed by the source's group
+    private _belowGroups: Map<vscode.TabGroup, vscode.TabGroup> = new Map();
+
+    // Shared editor group of the "dedicatedGroup" layout
+    private _dedicatedGroup: vscode.TabGroup | undefined;
+
+    // Pending retarget of the follow-mode preview; retargets run one at a time
+    private _followTimeout: NodeJS.Timeout | undefined;
+    private _following: Promise<void> = Promise.resolve();
+
     // Debounce document opens to handle VS Code's event batching
     private _pendingOpens: Map<string, NodeJS.Timeout> = new Map();
     private readonly OPEN_DEBOUNCE_MS = 50;
 
+    // Evaluates previewMarkdown.include / previewMarkdown.exclude
+    private readonly _pathRules = new PathRuleMatcher();
+
     constructor(
-        private readonly configManager: ConfigManager,
-        private readonly diffDetector: DiffDetector,
-        private readonly tabTracker: TabTracker
+        private readonly configManager: PreviewSettings,
+        private readonly diffDetector: DiffViews,
+        private readonly tabTracker: PreviewTabs,
+        private readonly readerHistory: ReaderHistory,
+        private readonly redlinePreview: RedlineViews,
+        private readonly decisionLog: DecisionLog,
+        private readonly capabilities: ProviderAvailability,
+        private readonly fallbackPreview: FallbackPreviews,
+        private readonly host: EditorHost = windowHost()
     ) {
         this.registerEventListeners();
+
+        // Pairings restored after a window reload count as already handled
+        for (const tracked of this.tabTracker.trackedPreviews) {
+            this._openedPreviews.add(tracked.sourceUri.toString());
+        }
     }
 
     /**
@@ -42,32 +163,57 @@ export class PreviewManager implements vscode.Disposable {
     private registerEventListeners(): void {
         // Listen for document opens to trigger auto-preview
         this._disposables.push(
-            vscode.workspace.onDidOpenTextDocument(doc => {
+            this.host.onDidOpenTextDocument(doc => {
                 this.handleDocumentOpen(doc);
             })
         );
 
         // Listen for tab changes to handle auto-close
         this._disposables.push(
-            vscode.window.tabGroups.onDidChangeTabs(event => {
+            this.host.onDidChangeTabs(event => {
                 this.handleTabChanges(event);
             })
         );
 
+        // Forget layout groups that were closed
+        this._disposables.push(
+            this.host.onDidChangeTabGroups(event => {
+                for (const closed of event.closed) {
+                    this._belowGroups.delete(closed);
+                    for (const [source, below] of this._belowGroups) {
+                        if (below === closed) {
+                            this._belowGroups.delete(source);
+                        }
+                    }
+                    if (this._dedicatedGroup === closed) {
+                        this._dedicatedGroup = undefined;
+                    }
+                }
+            })
+        );
+
         // Listen for active editor changes (for edge cases)
         this._disposables.push(
-            vscode.window.onDidChangeActiveTextEditor(editor => {
+            this.host.onDidChangeActiveTextEditor(editor => {
                 if (editor) {
                     this.handleEditorActivation(editor);
                 }
             })
         );
 
+        // Re-evaluate preview directives when documents are saved
+        this._disposables.push(
+            this.host.onDidSaveTextDocument(doc => {
+                this.handleDocumentSave(doc);
+            })
+        );
+
         // Clean up tracking when documents are fully closed
         this._disposables.push(
-            vscode.workspace.onDidCloseTextDocument(doc => {
+            this.host.onDidCloseTextDocument(doc => {
                 // Remove from our tracking set
                 this._openedPreviews.delete(doc.uri.toString());
+                this._directives.delete(doc.uri.toString());
             })
         );
     }
@@ -76,26 +222,73 @@ export class PreviewManager implements vscode.Disposable {
      * Handle document open event - potentially open preview
      */
     private handleDocumentOpen(document: vscode.TextDocument): void {
-        const config = this.configManager.config;
+        // The extension opened it to preview it; that preview is on its way
+        if (this._requestedOpens.has(document.uri.toString())) {
+            return;
+        }
+
+        // Check if it's a supported language
+        if (!this.isSupportedDocument(document)) {
+            return;
+        }
 
         // Quick exit checks
+        const config = this.configManager.getConfigFor(document.uri);
         if (!config.enabled) {
+            this.decide(document.uri, 'open', 'skipped', 'auto preview is disabled (previewMarkdown.enabled)');
             return;
         }
 
-        // Check if it's a supported language
-        if (!this.isSupportedDocument(document)) {
+        if (!config.schemes.includes(document.uri.scheme)) {
+            this.decide(document.uri, 'open', 'skipped', `"${document.uri.scheme}" documents are not in previewMarkdown.schemes`);
             return;
         }
 
         // Check if language is enabled in settings
         const languageId = this.getLanguageId(document);
-        if (!languageId || !this.configManager.isLanguageEnabled(languageId)) {
+        if (!languageId || !this.configManager.isLanguageEnabled(languageId, document.uri)) {
+            this.decide(document.uri, 'open', 'skipped', `language "${languageId ?? document.languageId}" is not enabled in previewMarkdown.languages`);
             return;
         }
 
-        // Debounce the open to handle VS Code's event batching
+        // Check include/exclude rules
+        const action = this.getRuleAction(document);
+        if (action === 'skip') {
+            this.decide(document.uri, 'open', 'skipped', 'excluded by previewMarkdown.include / previewMarkdown.exclude rules');
+            return;
+        }
+
+        // The document itself can opt out
+        if (this.getDirective(document) === 'off') {
+            this.decide(document.uri, 'open', 'skipped', 'the document contains the directive "preview: off"');
+            return;
+        }
+
+        if (this.isSuppressed(document.uri)) {
+            this.decide(document.uri, 'open', 'skipped', 'auto preview was suppressed for this document by another extension');
+            return;
+        }
+
+        // Large documents are only previewed if the user agrees
         const key = document.uri.toString();
+        const sizeLimit = this.getSizeLimitReason(document, config);
+        if (sizeLimit && !this._largeFilesAllowed.has(key)) {
+            if (!this._openedPreviews.has(key) && !this.tabTracker.isPreviewOpen(document.uri)) {
+                this.decide(document.uri, 'open', 'skipped', `${sizeLimit}; asked before opening`);
+                this.confirmLargeDocument(document, action, sizeLimit);
+            }
+            return;
+        }
+
+        // In follow mode the single preview follows the active editor, not document opens
+        if (config.followActiveEditor && !config.previewOnlyMode) {
+            if (vscode.window.activeTextEditor?.document === document) {
+                this.scheduleFollow(document);
+            }
+            return;
+        }
+
+        // Debounce the open to handle VS Code's event batching
         const existing = this._pendingOpens.get(key);
         if (existing) {
             clearTimeout(existing);
@@ -103,103 +296,302 @@ export class PreviewManager implements vscode.Disposable {
 
         const timeout = setTimeout(() => {
             this._pendingOpens.delete(key);
-            this.openPreviewIfNeeded(document);
+            this.openPreviewIfNeeded(document, action);
         }, this.OPEN_DEBOUNCE_MS);
 
         this._pendingOpens.set(key, timeout);
     }
 
     /**
-     * Open preview for a document if conditions are met
+     * Open preview for a document if conditions are met.
+     * A 'reader' rule action opens the preview in preview-only mode for this file.
+     * Options given on request override the layout and focus settings.
+     *
+     * @returns true if a preview was opened
      */
-    private async openPreviewIfNeeded(document: vscode.TextDocument): Promise<void> {
-        const config = this.configManager.config;
+    private async openPreviewIfNeeded(
+        document: vscode.TextDocument,
+        action: PathRuleAction = 'preview',
+        options: OpenRequest = {}
+    ): Promise<boolean> {
+        const config = this.configManager.getConfigFor(document.uri);
         const key = document.uri.toString();
+        // Directives adjust automatic opens only; explicit requests say what they want
+        const directive = options.manual ? undefined : this.getDirective(document);
+        const readerMode = config.previewOnlyMode || action === 'reader' || directive === 'reader';
+        const layout = options.layout
+            ?? (options.toSide === undefined ? undefined : (options.toSide ? 'side' : 'sameGroup'))
+            ?? (directive === 'side' ? 'side' : config.layout);
+        const preserveFocus = options.preserveFocus ?? config.preserveFocus;
 
         // Skip if we already opened a preview for this document
         if (this._openedPreviews.has(key)) {
-            return;
+            this.decide(document.uri, 'open', 'skipped', 'a preview was already opened for this document; close the document or use "Open Preview for Current File" to reopen it');
+            return false;
         }
 
         // Skip if preview is already open (unless in preview-only mode where we replace it)
-        if (!config.previewOnlyMode && this.tabTracker.isPreviewOpen(document.uri)) {
+        if (!readerMode && this.tabTracker.isPreviewOpen(document.uri)) {
             this._openedPreviews.add(key);
-            return;
+            this.decide(document.uri, 'open', 'skipped', 'a preview of this document is already open');
+            return false;
         }
 
         // Check git diff mode
         if (!config.openOnGitDiff && this.diffDetector.isDiffEditor()) {
-            return;
+            this.decide(document.uri, 'open', 'skipped', 'a diff editor is active and previewMarkdown.openOnGitDiff is off');
+            return false;
         }
 
         // Check if document is in a diff view
         if (!config.openOnGitDiff && this.diffDetector.isDocumentInDiffView(document.uri)) {
-            return;
+            this.decide(document.uri, 'open', 'skipped', 'the document is shown in a diff and previewMarkdown.openOnGitDiff is off');
+            return false;
         }
 
         // Get the appropriate preview command
         const languageId = this.getLanguageId(document);
         if (!languageId) {
-            return;
+            this.decide(document.uri, 'open', 'skipped', `language "${document.languageId}" has no preview provider`);
+            return false;
+        }
+
+        const registered = this.configManager.providers.get(languageId);
+        if (!registered) {
+            this.decide(document.uri, 'open', 'skipped', `language "${languageId}" has no preview provider`);
+            return false;
+        }
+
+        // Don't retry commands of an extension that is not installed
+        const provider = this.resolveProvider(registered, document.uri);
+        if (!provider) {
+            this.decide(document.uri, 'open', 'skipped', `no installed extension provides ${registered.commands.sameGroup}`);
+            return false;
+        }
+
+        // Side-by-side and redline modes preview the whole diff instead of this document alone
+        if (config.openOnGitDiff && config.diffPreviewMode !== 'single') {
+            const diffTab = this.diffDetector.findDiffTab(document.uri);
+            if (diffTab?.input instanceof vscode.TabInputTextDiff) {
+                await this.showDiffPreview(diffTab.input, provider, config);
+                return true;
+            }
         }
 
-        const commands = PREVIEW_COMMANDS[languageId];
-        const command = config.openPreviewToSide ? commands.toSide : commands.sameGroup;
+        const commands = provider.commands;
 
         // Track that we're opening a preview
         this._openedPreviews.add(key);
 
         try {
-            // Store active editor for focus restoration
+            // Store active editor and its group for focus restoration
             const activeEditor = vscode.window.activeTextEditor;
-            const activeViewColumn = activeEditor?.viewColumn;
+            const sourceGroup = vscode.window.tabGroups.activeTabGroup;
 
             // Handle preview-only mode: close existing previews first for single-preview experience
-            if (config.previewOnlyMode) {
+            if (readerMode) {
                 await this.closeAllMarkdownPreviews();
             }
 
-            // Open the preview
-            await vscode.commands.executeCommand(command, document.uri);
+            // Move to the group the layout opens the preview in
+            const toSide = await this.focusPreviewGroup(layout, config.previewColumn);
+            const command = toSide ? commands.toSide : commands.sameGroup;
 
-            // Handle preview-only mode: close the source file
-            if (config.previewOnlyMode) {
+            // Open the preview and record which tab it landed in
+            await this.tabTracker.openAndTrack(
+                document.uri,
+                languageId,
+                () => vscode.commands.executeCommand(command, document.uri),
+                { toSide, mode: readerMode ? 'reader' : 'preview', manual: options.manual, viewType: provider.viewType }
+            );
+            this.decide(document.uri, 'open', 'opened', readerMode
+                ? `opened in preview-only mode (${layout} layout) with ${command}`
+                : `opened (${layout} layout) with ${command}`);
+
+            await this.evictPreviews(document.uri);
+
+            // Handle preview-only mode: close the source file and remember it for back/forward
+            if (readerMode) {
                 await this.closeSourceEditor(document.uri);
+                if (options.historyStep === 'back') {
+                    this.readerHistory.back();
+                } else if (options.historyStep === 'forward') {
+                    this.readerHistory.forward();
+                } else {
+                    this.readerHistory.record(document.uri);
+                }
             }
             // Handle preserve focus
-            else if (config.preserveFocus && activeEditor && activeViewColumn) {
-                // Restore focus to the source editor
+            else if (preserveFocus && activeEditor) {
+                // Restore focus to the source editor; its column may have shifted if a group was created
                 await this.delay(50);
                 await vscode.window.showTextDocument(activeEditor.document, {
-                    viewColumn: activeViewColumn,
+                    viewColumn: sourceGroup.viewColumn,
                     preserveFocus: false
                 });
             }
+            return true;
         } catch (error) {
-            // Command might not be available (e.g., asciidoc extension not installed)
             this._openedPreviews.delete(key);
 
-            if (error instanceof Error && error.message.includes('command')) {
-                // Likely missing extension for asciidoc/rst
-                logger.warn(`Preview command not available for ${languageId}. Is the required extension installed?`);
+            // The provider's extension may have been uninstalled or disabled since the last detection
+            await this.capabilities.refresh();
+            if (provider === registered && !this.capabilities.isAvailable(languageId)) {
+                this.decide(document.uri, 'open', 'failed', `the ${languageId} preview commands are not available; no installed extension provides ${commands.sameGroup}`);
+                if (this.fallbackPreview.supports(languageId)) {
+                    // Retry with the built-in basic preview
+                    return this.openPreviewIfNeeded(document, action, options);
+                }
+                this.capabilities.reportMissing(languageId, document.uri);
             } else {
-                logger.error(`Failed to open preview for ${path.basename(document.uri.fsPath)}`, error);
+                logger.error('Failed to open preview', error, { uri: document.uri, language: languageId });
+                this.decide(document.uri, 'open', 'failed', `opening the preview failed: ${error instanceof Error ? error.message : String(error)}`);
             }
+            return false;
         }
     }
 
     /**
-     * Handle tab changes - close preview when source closes
+     * Preview a diff that was opened or switched to, in side-by-side or redline mode.
+     * Diffs are handled from their tab rather than from editor activation: the
+     * original side is usually a git: document outside previewMarkdown.schemes,
+     * and the modified side may already have a preview of its own. Settings,
+     * language and rules are those of the modified side.
      */
-    private handleTabChanges(event: vscode.TabChangeEvent): void {
-        const config = this.configManager.config;
+    private async handleDiffActivation(diff: vscode.TabInputTextDiff): Promise<void> {
+        const uri = diff.modified;
+        const config = this.configManager.getConfigFor(uri);
+        if (!config.enabled || !config.openOnGitDiff || config.diffPreviewMode === 'single') {
+            return;
+        }
+
+        const registered = this.configManager.providers.getByExtension(uriExtname(uri));
+        if (!registered || !this.configManager.isLanguageEnabled(registered.languageId, uri)) {
+            return;
+        }
 
-        if (!config.enabled || !config.autoClosePreview) {
+        if (!config.schemes.includes(uri.scheme) || this.isSuppressed(uri) ||
+            this._pathRules.resolve(uri, config.include, config.exclude) === 'skip') {
             return;
         }
 
+        const provider = this.resolveProvider(registered, uri);
+        if (!provider) {
+            this.decide(uri, 'open', 'skipped', `no installed extension provides ${registered.commands.sameGroup}`);
+            return;
+        }
+        await this.showDiffPreview(diff, provider, config);
+    }
+
+    /**
+     * Show a diff as previewMarkdown.diffPreviewMode asks: both sides side by side, or a redline view
+     */
+    private async showDiffPreview(
+        diff: vscode.TabInputTextDiff,
+        provider: PreviewProvider,
+        config: ExtensionConfig
+    ): Promise<void> {
+        if (config.diffPreviewMode === 'sideBySide') {
+            await this.openDiffPreviews(diff, provider, config);
+        } else if (!this.redlinePreview.isOpen(diff)) {
+            await this.redlinePreview.show(diff);
+            this.decide(diff.modified, 'open', 'opened', 'opened the redline view of its diff (previewMarkdown.diffPreviewMode)');
+        }
+    }
+
+    /**
+     * Open previews of the original and modified documents of a diff, side by side:
+     * [diff] [original preview] [modified preview]
+     */
+    private async openDiffPreviews(
+        diff: vscode.TabInputTextDiff,
+        provider: PreviewProvider,
+        config: ExtensionConfig
+    ): Promise<void> {
+        const diffKey = this.diffDetector.getDiffKey(diff);
+        if (this._diffPreviews.has(diffKey)) {
+            return;
+        }
+        this._diffPreviews.set(diffKey, [diff.original, diff.modified]);
+
+        const diffColumn = vscode.window.tabGroups.activeTabGroup.viewColumn;
+        const command = provider.commands.toSide;
+
+        try {
+            const originalPreview = await this.tabTracker.openAndTrack(
+                diff.original,
+                provider.languageId,
+                () => vscode.commands.executeCommand(command, diff.original),
+                { viewType: provider.viewType }
+            );
+
+            // Move focus to the original preview's group so the next preview opens beside it
+            if (originalPreview && originalPreview.tab.group.viewColumn !== vscode.window.tabGroups.activeTabGroup.viewColumn) {
+                await this.focusGroup(originalPreview.tab.group.viewColumn);
+            }
+
+            await this.tabTracker.openAndTrack(
+                diff.modified,
+                provider.languageId,
+                () => vscode.commands.executeCommand(command, diff.modified),
+                { viewType: provider.viewType }
+            );
+
+            if (config.preserveFocus) {
+                await this.focusGroup(diffColumn);
+            }
+            this.decide(diff.modified, 'open', 'opened', 'opened previews of both sides of its diff (previewMarkdown.diffPreviewMode)');
+        } catch (error) {
+            this._diffPreviews.delete(diffKey);
+            logger.error('Failed to open diff previews', error, { uri: diff.modified });
+        }
+    }
+
+    /**
+     * Close the previews opened for a diff tab
+     */
+    private closeDiffPreviews(diff: vscode.TabInputTextDiff): void {
+        const diffKey = this.diffDetector.getDiffKey(diff);
+        const uris = this._diffPreviews.get(diffKey);
+        if (!uris) {
+            return;
+        }
+
+        this._diffPreviews.delete(diffKey);
+        for (const uri of uris) {
+            this.tabTracker.closePreviewForFile(uri, 'its diff was closed');
+        }
+    }
+
+    /**
+     * Check if a URI is one side of a diff with side-by-side previews
+     */
+    private isInDiffPreview(uri: vscode.Uri): boolean {
+        const key = uri.toString();
+        for (const uris of this._diffPreviews.values()) {
+            if (uris.some(u => u.toString() === key)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Handle tab changes - close preview when source closes, preview diffs as they open
+     */
+    private handleTabChanges(event: vscode.TabChangeEvent): void {
         // Process closed tabs
         for (const closedTab of event.closed) {
+            // Closing a diff closes its side-by-side or redline previews
+            if (closedTab.input instanceof vscode.TabInputTextDiff) {
+                const config = this.configManager.getConfigFor(closedTab.input.modified);
+                if (config.enabled && config.autoClosePreview) {
+                    this.closeDiffPreviews(closedTab.input);
+                    this.redlinePreview.close(closedTab.input);
+                }
+                continue;
+            }
+
             // Check if it's a text file tab (not diff, not webview)
             if (closedTab.input instanceof vscode.TabInputText) {
                 const uri = closedTab.input.uri;
@@ -209,20 +601,51 @@ export class PreviewManager implements vscode.Disposable {
                     // Check if this was closed by preview-only mode
                     // If so, DON'T close the preview - that's the whole point!
                     if (this._previewOnlyClosedUris.has(key)) {
-                        logger.debug(`Skipping auto-close for preview-only mode: ${path.basename(uri.fsPath)}`);
+                        this.decide(uri, 'close', 'kept', 'the source was closed by preview-only mode');
                         this._previewOnlyClosedUris.delete(key);
                         // Don't remove from _openedPreviews - preview is still "open" for this file
                         continue;
                     }
 
+                    // Settings are resolved per folder of the closed document
+                    const config = this.configManager.getConfigFor(uri);
+                    if (!config.enabled || !config.autoClosePreview) {
+                        this.decide(uri, 'close', 'kept', config.enabled
+                            ? 'previewMarkdown.autoClosePreview is off'
+                            : 'auto preview is disabled (previewMarkdown.enabled)');
+                        continue;
+                    }
+
+                    // The preview belongs to a diff that is still open
+                    if (this.isInDiffPreview(uri)) {
+                        this.decide(uri, 'close', 'kept', 'the preview belongs to a diff that is still open');
+                        continue;
+                    }
+
+                    // The follow-mode preview moves on to the next active document instead
+                    if (this.tabTracker.getTrackedPreview(uri)?.mode === 'follow' && this.hasOtherSupportedTab(uri)) {
+                        this.decide(uri, 'close', 'kept', 'follow mode: the preview will switch to the next active document');
+                        this._openedPreviews.delete(key);
+                        continue;
+                    }
+
                     // Close the corresponding preview
-                    this.tabTracker.closePreviewForFile(uri);
+                    const reason = 'the source document was closed';
+                    this.decide(uri, 'close', 'closed', reason);
+                    this.tabTracker.closePreviewForFile(uri, reason);
                     // Clean up tracking
                     this._openedPreviews.delete(key);
                 }
             }
         }
 
+        // Opening or switching to a diff previews it in side-by-side or redline mode
+        for (const tab of [...event.opened, ...event.changed]) {
+            if (tab.isActive && tab.input instanceof vscode.TabInputTextDiff) {
+                this.handleDiffActivation(tab.input);
+            }
+        }
+
         // Periodic cleanup
         if (Math.random() < 0.1) {
             this.tabTracker.cleanupDebounceMap();
@@ -235,7 +658,8 @@ export class PreviewManager implements vscode.Disposable {
      * might not fire (e.g., switching between already-open tabs).
      */
     private handleEditorActivation(editor: vscode.TextEditor): void {
-        const config = this.configManager.config;
+        const document = editor.document;
+        const config = this.configManager.getConfigFor(document.uri);
 
         if (!config.enabled) {
             return;
@@ -247,13 +671,27 @@ export class PreviewManager implements vscode.Disposable {
             return;
         }
 
-        const document = editor.document;
-        if (!this.isSupportedDocument(document)) {
+        if (!this.isSupportedDocument(document) || !config.schemes.includes(document.uri.scheme)) {
             return;
         }
 
         const languageId = this.getLanguageId(document);
-        if (!languageId || !this.configManager.isLanguageEnabled(languageId)) {
+        if (!languageId || !this.configManager.isLanguageEnabled(languageId, document.uri)) {
+            return;
+        }
+
+        const action = this.getRuleAction(document);
+        if (action === 'skip' || this.isSuppressed(document.uri) || this.getDirective(document) === 'off') {
+            return;
+        }
+
+        // Large documents were offered when they opened
+        if (this.getSizeLimitReason(document, config) && !this._largeFilesAllowed.has(document.uri.toString())) {
+            return;
+        }
+
+        if (config.followActiveEditor) {
+            this.scheduleFollow(document);
             return;
         }
 
@@ -266,10 +704,247 @@ export class PreviewManager implements vscode.Disposable {
 
         // Only open if preview isn't already open
         if (!this.tabTracker.isPreviewOpen(document.uri)) {
-            this.openPreviewIfNeeded(document);
+            this.openPreviewIfNeeded(document, action);
         }
     }
 
+    /**
+     * Read (and remember) the preview directive of a document
+     */
+    private getDirective(document: vscode.TextDocument): PreviewDirective | undefined {
+        const directive = readPreviewDirective(document);
+        this._directives.set(document.uri.toString(), directive);
+        return directive;
+    }
+
+    /**
+     * Apply a preview directive that changed when the document was saved:
+     * "off" closes the automatic preview, anything else is handled like a fresh open.
+     */
+    private handleDocumentSave(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+        if (!this._directives.has(key) || !this.isSupportedDocument(document)) {
+            return;
+        }
+
+        const previous = this._directives.get(key);
+        const directive = this.getDirective(document);
+        if (directive === previous) {
+            return;
+        }
+
+        if (directive === 'off') {
+            const tracked = this.tabTracker.getTrackedPreview(document.uri);
+            if (tracked && !tracked.manual) {
+                const reason = 'the document now contains the directive "preview: off"';
+                this.decide(document.uri, 'close', 'closed', reason);
+                this.tabTracker.closePreviewForFile(document.uri, reason);
+            }
+            return;
+        }
+
+        this._openedPreviews.delete(key);
+        this.handleDocumentOpen(document);
+    }
+
+    /**
+     * Describe which size threshold a document exceeds, if any
+     */
+    private getSizeLimitReason(document: vscode.TextDocument, config: ExtensionConfig): string | undefined {
+        if (config.maxLineCount > 0 && document.lineCount > config.maxLineCount) {
+            return `the document has ${document.lineCount} lines (previewMarkdown.maxLineCount is ${config.maxLineCount})`;
+        }
+
+        if (config.maxFileSizeKB > 0) {
+            // UTF-8 size of the text, including unsaved changes
+            const sizeKB = Math.round(Buffer.byteLength(document.getText(), 'utf8') / 1024);
+            if (sizeKB > config.maxFileSizeKB) {
+                return `the document is ${sizeKB} KB (previewMarkdown.maxFileSizeKB is ${config.maxFileSizeKB})`;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Offer to preview a document that exceeds a size threshold.
+     * "Always for This File" is remembered until the window is reloaded.
+     */
+    private async confirmLargeDocument(document: vscode.TextDocument, action: PathRuleAction, reason: string): Promise<void> {
+        const key = document.uri.toString();
+        if (this._largeFilePrompts.has(key)) {
+            return;
+        }
+        this._largeFilePrompts.add(key);
+
+        const openAnyway = 'Open Preview';
+        const always = 'Always for This File';
+        let choice: string | undefined;
+        try {
+            choice = await this.host.showInformationMessage(
+                `${uriBasename(document.uri)} was not previewed automatically: ${reason}. Open preview anyway?`,
+                openAnyway,
+                always
+            );
+        } finally {
+            this._largeFilePrompts.delete(key);
+        }
+
+        if (!choice) {
+            return;
+        }
+        if (choice === always) {
+            this._largeFilesAllowed.add(key);
+        }
+        this._openedPreviews.delete(key);
+        await this.openPreviewIfNeeded(document, action, { manual: true });
+    }
+
+    /**
+     * Close the least recently viewed automatic previews beyond previewMarkdown.maxOpenPreviews.
+     * The preview that was just opened is never closed.
+     */
+    private async evictPreviews(openedUri: vscode.Uri): Promise<void> {
+        const max = this.configManager.getConfigFor(openedUri).maxOpenPreviews;
+        const open = this.tabTracker.trackedPreviews.filter(preview => this.tabTracker.getTrackedPreview(preview.sourceUri));
+
+        for (const preview of pickPreviewsToEvict(open, max, [openedUri])) {
+            const reason = `least recently viewed preview closed to stay within previewMarkdown.maxOpenPreviews (${max})`;
+            this.decide(preview.sourceUri, 'close', 'closed', reason);
+            await this.tabTracker.closePreviewForFile(preview.sourceUri, reason);
+            // Switching back to the document opens its preview again
+            this._openedPreviews.delete(preview.sourceUri.toString());
+        }
+    }
+
+    /**
+     * Retarget the follow-mode preview to a document once activation settles
+     */
+    private scheduleFollow(document: vscode.TextDocument): void {
+        if (this._followTimeout) {
+            clearTimeout(this._followTimeout);
+        }
+        this._followTimeout = setTimeout(() => {
+            this._followTimeout = undefined;
+            this._following = this._following.then(() => this.followDocument(document));
+        }, this.OPEN_DEBOUNCE_MS);
+    }
+
+    /**
+     * Show a document in the follow-mode preview. The new preview opens in the
+     * group of the previous one, which is closed afterwards unless the provider
+     * retargeted it in place (like the built-in markdown dynamic preview).
+     */
+    private async followDocument(document: vscode.TextDocument): Promise<void> {
+        // The user may have moved on while waiting
+        if (vscode.window.activeTextEditor?.document !== document) {
+            return;
+        }
+
+        // Diffs are followed only with previewMarkdown.openOnGitDiff, like automatic opens
+        const config = this.configManager.getConfigFor(document.uri);
+        const diffActive = this.diffDetector.isDiffEditor();
+        if (!config.openOnGitDiff && (diffActive || this.diffDetector.isDocumentInDiffView(document.uri))) {
+            this.decide(document.uri, 'open', 'skipped', 'follow mode: the document is shown in a diff and previewMarkdown.openOnGitDiff is off');
+            return;
+        }
+
+        const languageId = this.getLanguageId(document);
+        const registered = languageId ? this.configManager.providers.get(languageId) : undefined;
+        if (!languageId || !registered) {
+            return;
+        }
+
+        const provider = this.resolveProvider(registered, document.uri);
+        if (!provider) {
+            this.decide(document.uri, 'open', 'skipped', `follow mode: no installed extension provides ${registered.commands.sameGroup}`);
+            return;
+        }
+
+        const current = this.getFollowPreview();
+        if (current?.sourceUri.toString() === document.uri.toString()) {
+            return;
+        }
+
+        const sourceGroup = vscode.window.tabGroups.activeTabGroup;
+
+        try {
+            // Keep the preview in the group it already occupies
+            let toSide = false;
+            if (current) {
+                await this.focusGroup(current.tab.group.viewColumn);
+            } else {
+                toSide = await this.focusPreviewGroup(config.layout, config.previewColumn);
+            }
+            const command = toSide ? provider.commands.toSide : provider.commands.sameGroup;
+
+            const opened = await this.tabTracker.openAndTrack(
+                document.uri,
+                languageId,
+                () => vscode.commands.executeCommand(command, document.uri),
+                { toSide, mode: 'follow', viewType: provider.viewType }
+            );
+
+            if (current && current.tab !== opened?.tab) {
+                this.tabTracker.untrack(current.sourceUri);
+                try {
+                    await vscode.window.tabGroups.close(current.tab);
+                } catch (error) {
+                    logger.debug(`Could not close previous follow preview: ${error}`, { uri: current.sourceUri });
+                }
+            }
+
+            this.decide(document.uri, 'open', 'opened', current
+                ? `follow mode: switched the preview from ${uriBasename(current.sourceUri)}`
+                : `follow mode: opened the preview with ${command}`);
+
+            // Focus must stay in the editor for the preview to keep following it;
+            // a diff gets its group focused back rather than being replaced by the plain document
+            if (diffActive) {
+                await this.focusGroup(sourceGroup.viewColumn);
+            } else {
+                await vscode.window.showTextDocument(document, { viewColumn: sourceGroup.viewColumn, preserveFocus: false });
+            }
+        } catch (error) {
+            logger.error('Failed to update the follow preview', error, { uri: document.uri, language: languageId });
+            this.decide(document.uri, 'open', 'failed', `follow mode: opening the preview failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Provider that opens a language's preview: its own, or the built-in fallback
+     * preview when no installed extension provides it. A missing extension is
+     * reported once per session either way.
+     */
+    private resolveProvider(provider: PreviewProvider, uri: vscode.Uri): PreviewProvider | undefined {
+        if (this.capabilities.isAvailable(provider.languageId)) {
+            return provider;
+        }
+
+        const hasFallback = this.fallbackPreview.supports(provider.languageId);
+        this.capabilities.reportMissing(provider.languageId, uri, hasFallback);
+        return hasFallback ? this.fallbackPreview.getProvider(provider) : undefined;
+    }
+
+    /**
+     * The tracked follow-mode preview, if its tab is still open
+     */
+    private getFollowPreview(): TrackedPreview | undefined {
+        const tracked = this.tabTracker.trackedPreviews.find(preview => preview.mode === 'follow');
+        return tracked ? this.tabTracker.getTrackedPreview(tracked.sourceUri) : undefined;
+    }
+
+    /**
+     * Check if a supported document other than the given one is open in a text tab
+     */
+    private hasOtherSupportedTab(uri: vscode.Uri): boolean {
+        const key = uri.toString();
+        return vscode.window.tabGroups.all.some(group => group.tabs.some(tab =>
+            tab.input instanceof vscode.TabInputText &&
+            tab.input.uri.toString() !== key &&
+            this.tabTracker.isSupported(tab.input.uri)
+        ));
+    }
+
     /**
      * Close the source editor tab for preview-only mode.
      * Marks the URI so auto-close doesn't kill the preview.
@@ -277,20 +952,19 @@ export class PreviewManager implements vscode.Disposable {
     private async closeSourceEditor(uri: vscode.Uri): Promise<void> {
         const key = uri.toString();
 
-        // Mark this URI as intentionally closed by preview-only mode
-        // This prevents handleTabChanges from auto-closing the preview
-        this._previewOnlyClosedUris.add(key);
-
         for (const group of vscode.window.tabGroups.all) {
             for (const tab of group.tabs) {
                 if (tab.input instanceof vscode.TabInputText) {
                     if (tab.input.uri.toString() === key) {
+                        // Mark this URI as intentionally closed by preview-only mode
+                        // This prevents handleTabChanges from auto-closing the preview
+                        this._previewOnlyClosedUris.add(key);
                         try {
                             await vscode.window.tabGroups.close(tab);
-                            logger.debug(`Closed source editor for preview-only mode: ${path.basename(uri.fsPath)}`);
+                            logger.debug('Closed source editor for preview-only mode', { uri });
                             return;
                         } catch (error) {
-                            logger.debug(`Could not close source editor (may already be closed)`, error);
+                            logger.debug(`Could not close source editor (may already be closed): ${error}`, { uri });
                             // Remove from tracking if close failed
                             this._previewOnlyClosedUris.delete(key);
                         }
@@ -303,23 +977,12 @@ export class PreviewManager implements vscode.Disposable {
     /**
      * Close all markdown/markup preview tabs.
      * Used in preview-only mode to ensure only one preview is shown at a time.
+     * Previews are identified by viewType and registry ownership, never by
+     * their (localized) label. Fallback previews are closed through their panels.
      */
     private async closeAllMarkdownPreviews(): Promise<void> {
-        const previewViewTypes = ['markdown.preview', 'asciidoc.preview', 'restructuredtext.preview'];
-        const tabsToClose: vscode.Tab[] = [];
-
-        // Collect all preview tabs
-        for (const group of vscode.window.tabGroups.all) {
-            for (const tab of group.tabs) {
-                if (tab.input instanceof vscode.TabInputWebview) {
-                    // Check if it's a markdown-like preview
-                    if (previewViewTypes.includes(tab.input.viewType) ||
-                        tab.label.startsWith('Preview ')) {
-                        tabsToClose.push(tab);
-                    }
-                }
-            }
-        }
+        this.fallbackPreview.closeAll();
+        const tabsToClose = this.tabTracker.getPreviewTabs().filter(tab => !this.fallbackPreview.isPreviewTab(tab));
 
         // Close all collected preview tabs
         if (tabsToClose.length > 0) {
@@ -327,7 +990,7 @@ export class PreviewManager implements vscode.Disposable {
             try {
                 await vscode.window.tabGroups.close(tabsToClose);
             } catch (error) {
-                logger.debug(`Could not close some previews`, error);
+                logger.debug(`Could not close some previews: ${error}`);
             }
         }
     }
@@ -336,29 +999,95 @@ export class PreviewManager implements vscode.Disposable {
      * Check if a document is a supported markup file
      */
     private isSupportedDocument(document: vscode.TextDocument): boolean {
-        // Check by language ID first (more reliable)
-        const langId = document.languageId;
-        if (langId === 'markdown' || langId === 'asciidoc' || langId === 'restructuredtext') {
-            return true;
-        }
+        return this.getLanguageId(document) !== undefined;
+    }
 
-        // Fallback to extension check
-        const ext = path.extname(document.uri.fsPath).toLowerCase();
-        return ext in FILE_EXTENSIONS;
+    /**
+     * Record an open/close decision for a source document
+     */
+    private decide(uri: vscode.Uri, kind: DecisionKind, outcome: DecisionOutcome, reason: string): void {
+        this.decisionLog.record(uri, kind, outcome, reason);
     }
 
     /**
      * Get the language ID for a document
      */
     private getLanguageId(document: vscode.TextDocument): SupportedLanguage | undefined {
-        const langId = document.languageId;
-        if (langId === 'markdown' || langId === 'asciidoc' || langId === 'restructuredtext') {
-            return langId;
+        const providers = this.configManager.providers;
+
+        // Check by language ID first (more reliable)
+        if (providers.has(document.languageId)) {
+            return document.languageId;
         }
 
         // Fallback to extension
-        const ext = path.extname(document.uri.fsPath).toLowerCase();
-        return FILE_EXTENSIONS[ext];
+        return providers.getByExtension(uriExtname(document.uri))?.languageId;
+    }
+
+    /**
+     * Resolve the include/exclude rule action for a document
+     */
+    private getRuleAction(document: vscode.TextDocument): PathRuleAction {
+        const config = this.configManager.getConfigFor(document.uri);
+        return this._pathRules.resolve(document.uri, config.include, config.exclude);
+    }
+
+    /**
+     * Focus the editor group a layout opens previews in, creating it if needed.
+     * Returns true if the preview should open beside the active group instead.
+     */
+    private async focusPreviewGroup(layout: PreviewLayout, previewColumn: vscode.ViewColumn): Promise<boolean> {
+        const tabGroups = vscode.window.tabGroups;
+
+        switch (layout) {
+            case 'side':
+                return true;
+            case 'sameGroup':
+                return false;
+            case 'fixedColumn':
+                // Focusing a group that does not exist yet creates it
+                await this.focusGroup(previewColumn);
+                return false;
+            case 'below': {
+                const sourceGroup = tabGroups.activeTabGroup;
+                const below = this._belowGroups.get(sourceGroup);
+                if (below && tabGroups.all.includes(below)) {
+                    await this.focusGroup(below.viewColumn);
+                } else {
+                    await vscode.commands.executeCommand('workbench.action.newGroupBelow');
+                    this._belowGroups.set(sourceGroup, tabGroups.activeTabGroup);
+                }
+                return false;
+            }
+            case 'dedicatedGroup':
+                if (this._dedicatedGroup && tabGroups.all.includes(this._dedicatedGroup)) {
+                    await this.focusGroup(this._dedicatedGroup.viewColumn);
+                } else {
+                    await vscode.commands.executeCommand('workbench.action.newGroupRight');
+                    this._dedicatedGroup = tabGroups.activeTabGroup;
+                }
+                return false;
+        }
+    }
+
+    /**
+     * Focus the editor group in a view column (1-8)
+     */
+    private async focusGroup(viewColumn: vscode.ViewColumn): Promise<void> {
+        const commands = [
+            'workbench.action.focusFirstEditorGroup',
+            'workbench.action.focusSecondEditorGroup',
+            'workbench.action.focusThirdEditorGroup',
+            'workbench.action.focusFourthEditorGroup',
+            'workbench.action.focusFifthEditorGroup',
+            'workbench.action.focusSixthEditorGroup',
+            'workbench.action.focusSeventhEditorGroup',
+            'workbench.action.focusEighthEditorGroup'
+        ];
+        const command = commands[viewColumn - 1];
+        if (command) {
+            await vscode.commands.executeCommand(command);
+        }
     }
 
     /**
@@ -376,7 +1105,174 @@ export class PreviewManager implements vscode.Disposable {
         if (editor && this.isSupportedDocument(editor.document)) {
             // Force open even if already tracked
             this._openedPreviews.delete(editor.document.uri.toString());
-            await this.openPreviewIfNeeded(editor.document);
+            await this.openPreviewIfNeeded(editor.document, 'preview', { manual: true });
+        }
+    }
+
+    /**
+     * Open the preview of a document on request, even if one was opened before.
+     * The document does not need to be open in an editor.
+     *
+     * @returns true if a preview of the document is open afterwards
+     */
+    async openPreview(uri: vscode.Uri, options: OpenPreviewOptions = {}): Promise<boolean> {
+        const document = await this.openRequestedDocument(uri);
+        this._openedPreviews.delete(document.uri.toString());
+        await this.openPreviewIfNeeded(document, options.mode === 'reader' ? 'reader' : 'preview', { ...options, manual: true });
+        return this.isPreviewOpen(document.uri);
+    }
+
+    /**
+     * Stop (or resume) auto-opening previews for a document.
+     * Previews opened on request are not affected.
+     */
+    setSuppressed(uri: vscode.Uri, suppressed: boolean): void {
+        if (suppressed) {
+            this._suppressedUris.add(uri.toString());
+        } else {
+            this._suppressedUris.delete(uri.toString());
+        }
+    }
+
+    /**
+     * Check if auto preview is suppressed for a document
+     */
+    isSuppressed(uri: vscode.Uri): boolean {
+        return this._suppressedUris.has(uri.toString());
+    }
+
+    /**
+     * Scroll the tracked preview of a document to a heading anchor.
+     * The fallback preview scrolls itself; the built-in markdown preview is
+     * reopened with the anchor as URI fragment. Resolves to false if no preview
+     * is tracked, its provider cannot scroll, or scrolling failed.
+     */
+    async scrollPreviewTo(uri: vscode.Uri, slug: string): Promise<boolean> {
+        const tracked = this.tabTracker.getTrackedPreview(uri);
+        if (!tracked) {
+            return false;
+        }
+        if (this.fallbackPreview.scrollTo(uri, slug)) {
+            return true;
+        }
+
+        // Other providers ignore the fragment and would only reveal the preview
+        const input = tracked.tab.input;
+        const provider = this.configManager.providers.get(tracked.languageId);
+        if (!provider || !(input instanceof vscode.TabInputWebview) || !matchesViewType(input.viewType, MARKDOWN_PREVIEW_VIEW_TYPE)) {
+            return false;
+        }
+
+        try {
+            await this.focusGroup(tracked.tab.group.viewColumn);
+            await vscode.commands.executeCommand(provider.commands.sameGroup, uri.with({ fragment: slug }));
+            return true;
+        } catch (error) {
+            logger.warn(`Could not scroll the preview to #${slug}: ${error}`, { uri, language: tracked.languageId });
+            return false;
+        }
+    }
+
+    /**
+     * Close the preview of a source document, if one is tracked.
+     * The document stays marked as handled so it is not re-previewed on activation.
+     *
+     * @param reason Who asked for the close, for the log
+     */
+    async closePreview(uri: vscode.Uri, reason: string): Promise<boolean> {
+        return this.tabTracker.closePreviewForFile(uri, reason);
+    }
+
+    /**
+     * Check if a preview is open for a source document
+     */
+    isPreviewOpen(uri: vscode.Uri): boolean {
+        return this.tabTracker.isPreviewOpen(uri);
+    }
+
+    /**
+     * Get the source document the user is currently looking at: the source of
+     * the active preview tab, or else the document of the active text editor.
+     */
+    getActiveSourceUri(): vscode.Uri | undefined {
+        const activeTab = vscode.window.tabGroups.activeTabGroup.activeTab;
+        const tracked = activeTab ? this.tabTracker.findByTab(activeTab) : undefined;
+        if (tracked) {
+            return tracked.sourceUri;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        return editor && this.isSupportedDocument(editor.document) ? editor.document.uri : undefined;
+    }
+
+    /**
+     * Open a document in preview-only mode, replacing the current reader preview.
+     * The document does not need to be open in an editor.
+     *
+     * @returns true if the preview was opened
+     */
+    async openReaderPreview(uri: vscode.Uri): Promise<boolean> {
+        try {
+            const document = await this.openRequestedDocument(uri);
+            // Force open even if already tracked
+            this._openedPreviews.delete(document.uri.toString());
+            return await this.openPreviewIfNeeded(document, 'reader');
+        } catch (error) {
+            logger.error('Failed to open document in reader mode', error, { uri });
+            vscode.window.showErrorMessage(`Could not open ${uriBasename(uri)}`);
+            return false;
+        }
+    }
+
+    /**
+     * Go back or forward in the reader-mode history. The history only moves
+     * once the document is shown; a document that can no longer be opened
+     * is dropped from the history.
+     */
+    async navigateReaderHistory(direction: 'back' | 'forward'): Promise<void> {
+        const uri = this.readerHistory.peek(direction);
+        if (!uri) {
+            return;
+        }
+
+        let document: vscode.TextDocument;
+        try {
+            document = await this.openRequestedDocument(uri);
+        } catch (error) {
+            logger.warn(`Dropping unreadable document from the reader history: ${error}`, { uri });
+            this.readerHistory.remove(uri);
+            vscode.window.showErrorMessage(`Could not open ${uriBasename(uri)}; it was removed from the reader history`);
+            return;
+        }
+
+        this._openedPreviews.delete(document.uri.toString());
+        await this.openPreviewIfNeeded(document, 'reader', { historyStep: direction });
+    }
+
+    /**
+     * Open a document the extension previews itself. Its open event is not
+     * handled as an automatic open, so large documents are not asked about.
+     */
+    private async openRequestedDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+        const key = uri.toString();
+        this._requestedOpens.add(key);
+        try {
+            return await this.host.openTextDocument(uri);
+        } finally {
+            this._requestedOpens.delete(key);
+        }
+    }
+
+    /**
+     * Check the documents of the visible editors as if they had just been opened,
+     * the active one last. Used on activation for documents opened before the
+     * extension loaded; documents in background tabs are checked when activated.
+     */
+    processVisibleEditors(): void {
+        const active = vscode.window.activeTextEditor;
+        const others = vscode.window.visibleTextEditors.filter(editor => editor !== active);
+        for (const editor of active ? [...others, active] : others) {
+            this.handleDocumentOpen(editor.document);
         }
     }
 
@@ -386,8 +1282,18 @@ export class PreviewManager implements vscode.Disposable {
             clearTimeout(timeout);
         }
         this._pendingOpens.clear();
+        if (this._followTimeout) {
+            clearTimeout(this._followTimeout);
+        }
         this._openedPreviews.clear();
         this._previewOnlyClosedUris.clear();
+        this._suppressedUris.clear();
+        this._largeFilesAllowed.clear();
+        this._directives.clear();
+        this._largeFilePrompts.clear();
+        this._requestedOpens.clear();
+        this._diffPreviews.clear();
+        this._belowGroups.clear();
         this._disposables.forEach(d => d.dispose());
     }
 }
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { DocumentHeading, parseHeadings } from './headings';
+import { logger } from './logger';
+import { PreviewManager } from './previewManager';
+import { TabTracker } from './tabTracker';
+import { uriBasename } from './uriUtils';
+
+/**
+ * "Preview Outline" tree view: the headings of the document shown in the
+ * preview that was most recently opened or focused. Unlike the built-in
+ * Outline view it keeps working in reader mode, where the source editor is
+ * closed. Clicking a heading scrolls the preview to it.
+ */
+export class PreviewOutline implements vscode.TreeDataProvider<DocumentHeading>, vscode.Disposable {
+    private _disposables: vscode.Disposable[] = [];
+    private _treeView: vscode.TreeView<DocumentHeading>;
+    private _uri: vscode.Uri | undefined;
+    private _headings: DocumentHeading[] = [];
+    private _refreshTimeout: NodeJS.Timeout | undefined;
+
+    private readonly REFRESH_DEBOUNCE_MS = 300;
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+
+    /** Event fired when the headings change */
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    /** ID of the tree view in package.json */
+    static readonly VIEW_ID = 'previewMarkdown.outline';
+
+    /** Command run when a heading is clicked */
+    static readonly REVEAL_COMMAND = 'previewMarkdown.revealHeading';
+
+    constructor(
+        private readonly tabTracker: TabTracker,
+        private readonly previewManager: PreviewManager
+    ) {
+        this._treeView = vscode.window.createTreeView(PreviewOutline.VIEW_ID, {
+            treeDataProvider: this,
+            showCollapseAll: true
+        });
+
+        this._disposables.push(
+            this._treeView,
+            this._onDidChangeTreeData,
+            vscode.commands.registerCommand(PreviewOutline.REVEAL_COMMAND, (heading: DocumentHeading) => this.reveal(heading)),
+            this.tabTracker.onDidTrackPreview(() => this.follow()),
+            this.tabTracker.onDidFocusPreview(() => this.follow()),
+            this.tabTracker.onDidUntrackPreview(() => this.follow()),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (this._uri && event.document.uri.toString() === this._uri.toString()) {
+                    this.scheduleRefresh();
+                }
+            })
+        );
+
+        this.follow();
+    }
+
+    getTreeItem(heading: DocumentHeading): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            heading.text || '(untitled)',
+            heading.children.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+        );
+        item.iconPath = new vscode.ThemeIcon('symbol-string');
+        item.description = `H${heading.level}`;
+        item.tooltip = `${heading.text} (line ${heading.line + 1})`;
+        item.command = { command: PreviewOutline.REVEAL_COMMAND, title: 'Scroll Preview to Heading', arguments: [heading] };
+        return item;
+    }
+
+    getChildren(heading?: DocumentHeading): DocumentHeading[] {
+        return heading ? heading.children : this._headings;
+    }
+
+    /**
+     * Show the headings of the most recently opened or focused preview
+     */
+    private follow(): void {
+        const uri = this.tabTracker.mostRecentPreview?.sourceUri;
+        if (uri?.toString() === this._uri?.toString()) {
+            return;
+        }
+
+        this._uri = uri;
+        this.refresh();
+    }
+
+    /**
+     * Debounce re-parsing while the user types
+     */
+    private scheduleRefresh(): void {
+        if (this._refreshTimeout) {
+            clearTimeout(this._refreshTimeout);
+        }
+        this._refreshTimeout = setTimeout(() => {
+            this._refreshTimeout = undefined;
+            this.refresh();
+        }, this.REFRESH_DEBOUNCE_MS);
+    }
+
+    /**
+     * Re-read the headings of the followed document
+     */
+    private async refresh(): Promise<void> {
+        const uri = this._uri;
+        if (!uri) {
+            this._headings = [];
+            this._treeView.description = undefined;
+            this._treeView.message = 'Open a preview to see its headings.';
+            this._onDidChangeTreeData.fire();
+            return;
+        }
+
+        try {
+            // The source may be closed in reader mode; opening it only loads the text
+            const document = await vscode.workspace.openTextDocument(uri);
+            if (this._uri !== uri) {
+                return;
+            }
+            const languageId = this.tabTracker.getTrackedPreview(uri)?.languageId ?? document.languageId;
+            this._headings = parseHeadings(document.getText(), languageId);
+            this._treeView.description = uriBasename(uri);
+            this._treeView.message = this._headings.length === 0 ? 'The previewed document has no headings.' : undefined;
+        } catch (error) {
+            logger.error('Failed to read headings for the preview outline', error, { uri });
+            this._headings = [];
+        }
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Scroll the followed preview to a heading
+     */
+    private async reveal(heading: DocumentHeading): Promise<void> {
+        if (!this._uri) {
+            return;
+        }
+        const scrolled = await this.previewManager.scrollPreviewTo(this._uri, heading.slug);
+        if (!scrolled) {
+            vscode.window.showInformationMessage(`Could not scroll the preview of ${uriBasename(this._uri)}`);
+        }
+    }
+
+    dispose(): void {
+        if (this._refreshTimeout) {
+            clearTimeout(this._refreshTimeout);
+        }
+        this._disposables.forEach(d => d.dispose());
+    }
+}
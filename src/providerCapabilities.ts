@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from './configManager';
+import { ProviderCapability, SupportedLanguage } from './types';
+import { logger } from './logger';
+
+/**
+ * Extensions known to provide the built-in providers' preview commands,
+ * with the display name used in notifications
+ */
+const KNOWN_PROVIDER_EXTENSIONS: Record<SupportedLanguage, { name: string; extensionIds: string[] }> = {
+    markdown: { name: 'Markdown', extensionIds: ['vscode.markdown-language-features'] },
+    asciidoc: { name: 'AsciiDoc', extensionIds: ['asciidoctor.asciidoctor-vscode'] },
+    restructuredtext: { name: 'reStructuredText', extensionIds: ['lextudio.restructuredtext'] }
+};
+
+/**
+ * Capability matrix of the registered preview providers: which languages can
+ * actually be previewed, judged by the registered and contributed commands and
+ * the known provider extensions. Rebuilt when extensions or providers change.
+ *
+ * Languages without a provider get one notification per session offering to
+ * find the extension or to stop auto-previewing the language.
+ */
+export class ProviderCapabilities implements vscode.Disposable {
+    private _disposables: vscode.Disposable[] = [];
+    private _capabilities: Map<SupportedLanguage, ProviderCapability> = new Map();
+
+    // Languages already reported as missing this session
+    private _reported: Set<SupportedLanguage> = new Set();
+
+    // Detections run one at a time
+    private _detecting: Promise<void> = Promise.resolve();
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+
+    /** Event fired when the capability matrix is rebuilt */
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly configManager: ConfigManager) {
+        this._disposables.push(
+            this._onDidChange,
+            vscode.extensions.onDidChange(() => this.refresh()),
+            this.configManager.providers.onDidChange(() => this.refresh())
+        );
+    }
+
+    /** Capabilities of all registered providers */
+    get capabilities(): ProviderCapability[] {
+        return Array.from(this._capabilities.values());
+    }
+
+    /**
+     * Check if the preview of a language can be opened.
+     * Languages not detected yet are assumed to be available.
+     */
+    isAvailable(languageId: SupportedLanguage): boolean {
+        return this._capabilities.get(languageId)?.available ?? true;
+    }
+
+    /**
+     * Rebuild the capability matrix
+     */
+    refresh(): Promise<void> {
+        this._detecting = this._detecting.then(() => this.detect());
+        return this._detecting;
+    }
+
+    /**
+     * Check each provider's commands and known extensions
+     */
+    private async detect(): Promise<void> {
+        try {
+            const commands = new Set(await vscode.commands.getCommands(true));
+            for (const command of getContributedCommands()) {
+                commands.add(command);
+            }
+
+            const capabilities = new Map<SupportedLanguage, ProviderCapability>();
+            for (const provider of this.configManager.providers.all) {
+                const extensionId = KNOWN_PROVIDER_EXTENSIONS[provider.languageId]?.extensionIds
+                    .find(id => vscode.extensions.getExtension(id) !== undefined);
+                const hasCommands = commands.has(provider.commands.toSide) && commands.has(provider.commands.sameGroup);
+                const available = hasCommands || extensionId !== undefined;
+
+                if (this._capabilities.get(provider.languageId)?.available !== available) {
+                    logger.debug(`Preview provider ${available ? 'available' : 'not available'}`, { language: provider.languageId });
+                }
+                capabilities.set(provider.languageId, { languageId: provider.languageId, available, extensionId });
+            }
+
+            this._capabilities = capabilities;
+            this._onDidChange.fire();
+        } catch (error) {
+            logger.error('Failed to detect preview providers', error);
+        }
+    }
+
+    /**
+     * Tell the user, once per session, that a language has no preview provider.
+     * Offers to find the extension or to remove the language from previewMarkdown.languages.
+     * With `usingFallback`, the message says the built-in basic preview is shown instead.
+     */
+    reportMissing(languageId: SupportedLanguage, uri?: vscode.Uri, usingFallback = false): void {
+        if (this._reported.has(languageId)) {
+            return;
+        }
+        this._reported.add(languageId);
+
+        const known = KNOWN_PROVIDER_EXTENSIONS[languageId];
+        const name = known?.name ?? languageId;
+        const findAction = 'Find Extension';
+        const disableAction = `Disable ${name}`;
+        logger.warn('No preview provider installed', { uri, language: languageId });
+
+        vscode.window.showWarningMessage(
+            usingFallback
+                ? `Auto Preview Markdown: no installed extension provides a ${name} preview, showing a basic preview instead.`
+                : `Auto Preview Markdown: no installed extension provides a ${name} preview.`,
+            findAction,
+            disableAction
+        ).then(async choice => {
+            try {
+                if (choice === findAction) {
+                    await vscode.commands.executeCommand('workbench.extensions.search', known?.extensionIds[0] ?? languageId);
+                } else if (choice === disableAction) {
+                    await this.configManager.disableLanguage(languageId, uri);
+                    logger.info(`Removed "${languageId}" from previewMarkdown.languages`);
+                }
+            } catch (error) {
+                logger.error('Failed to handle the missing provider notification', error, { language: languageId });
+            }
+        });
+    }
+
+    dispose(): void {
+        this._capabilities.clear();
+        this._disposables.forEach(d => d.dispose());
+    }
+}
+
+/**
+ * Commands declared by installed extensions, including ones not activated yet
+ */
+function getContributedCommands(): Set<string> {
+    const commands = new Set<string>();
+    for (const extension of vscode.extensions.all) {
+        const contributed: unknown = extension.packageJSON?.contributes?.commands;
+        for (const entry of Array.isArray(contributed) ? contributed : []) {
+            if (typeof entry?.command === 'string') {
+                commands.add(entry.command);
+            }
+        }
+    }
+    return commands;
+}
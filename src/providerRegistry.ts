@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import { BUILTIN_PROVIDERS, PreviewProvider, ProviderSetting, SupportedLanguage } from './types';
+import { logger } from './logger';
+
+/**
+ * Registry of preview providers, keyed by language ID.
+ * Starts with the built-in providers, extended by providers registered
+ * through the extension API, and extended or overridden by the
+ * previewMarkdown.providers setting.
+ */
+export class ProviderRegistry implements vscode.Disposable {
+    private _builtIn: Map<SupportedLanguage, PreviewProvider> = new Map();
+    private _registered: Map<SupportedLanguage, PreviewProvider> = new Map();
+    private _configured: Map<SupportedLanguage, PreviewProvider> = new Map();
+    private _configuredSignature = '{}';
+
+    // Derived lookups, rebuilt whenever providers change
+    private _providers: Map<SupportedLanguage, PreviewProvider> = new Map();
+    private _byExtension: Map<string, PreviewProvider> = new Map();
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+
+    /** Event fired when the set of providers changes */
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        for (const provider of BUILTIN_PROVIDERS) {
+            this._builtIn.set(provider.languageId, provider);
+        }
+        this.rebuild();
+    }
+
+    /** Language IDs of all registered providers */
+    get languageIds(): SupportedLanguage[] {
+        return Array.from(this._providers.keys());
+    }
+
+    /** All registered providers */
+    get all(): PreviewProvider[] {
+        return Array.from(this._providers.values());
+    }
+
+    /**
+     * Check if a language has a registered provider
+     */
+    has(languageId: string): boolean {
+        return this._providers.has(languageId);
+    }
+
+    /**
+     * Get the provider for a language ID
+     */
+    get(languageId: string): PreviewProvider | undefined {
+        return this._providers.get(languageId);
+    }
+
+    /**
+     * Get the provider for a file extension (with leading dot, any case)
+     */
+    getByExtension(ext: string): PreviewProvider | undefined {
+        return this._byExtension.get(ext.toLowerCase());
+    }
+
+    /**
+     * Get the provider whose preview panels use the given webview viewType
+     */
+    getByViewType(viewType: string): PreviewProvider | undefined {
+        return this.all.find(p => matchesViewType(viewType, p.viewType));
+    }
+
+    /**
+     * Check if a webview viewType belongs to any registered provider
+     */
+    isPreviewViewType(viewType: string): boolean {
+        return this.getByViewType(viewType) !== undefined;
+    }
+
+    /**
+     * Replace the providers defined by the previewMarkdown.providers setting.
+     * Entries for built-in languages are merged over the built-in definition.
+     */
+    setConfiguredProviders(settings: Record<string, ProviderSetting>): void {
+        // Skip rebuilds when an unrelated setting changed
+        const signature = JSON.stringify(settings ?? {});
+        if (signature === this._configuredSignature) {
+            return;
+        }
+        this._configuredSignature = signature;
+
+        const configured = new Map<SupportedLanguage, PreviewProvider>();
+
+        for (const [languageId, setting] of Object.entries(settings ?? {})) {
+            const provider = this.resolveSetting(languageId, setting);
+            if (provider) {
+                configured.set(languageId, provider);
+            } else {
+                logger.warn(`Ignoring invalid preview provider for "${languageId}": a preview command and viewType are required`);
+            }
+        }
+
+        this._configured = configured;
+        this.rebuild();
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Register a provider from code, e.g. through the extension API.
+     * Overrides a built-in provider of the same language; the
+     * previewMarkdown.providers setting still takes precedence.
+     *
+     * @throws Error if the provider has no language ID, commands or viewType
+     */
+    register(provider: PreviewProvider): vscode.Disposable {
+        const { languageId, commands, viewType } = provider ?? {};
+        if (!languageId || !commands?.toSide || !commands?.sameGroup || !viewType) {
+            throw new Error('A preview provider needs a languageId, toSide and sameGroup commands, and a viewType');
+        }
+
+        const registered: PreviewProvider = {
+            languageId,
+            extensions: normalizeExtensions(provider.extensions ?? []),
+            commands: { toSide: commands.toSide, sameGroup: commands.sameGroup },
+            viewType
+        };
+        this._registered.set(languageId, registered);
+        this.rebuild();
+        this._onDidChange.fire();
+
+        return new vscode.Disposable(() => {
+            if (this._registered.get(languageId) === registered) {
+                this._registered.delete(languageId);
+                this.rebuild();
+                this._onDidChange.fire();
+            }
+        });
+    }
+
+    /**
+     * Build a provider from a setting entry, or undefined if it is incomplete
+     */
+    private resolveSetting(languageId: string, setting: ProviderSetting): PreviewProvider | undefined {
+        if (!languageId || typeof setting !== 'object' || setting === null) {
+            return undefined;
+        }
+
+        const base = this._builtIn.get(languageId);
+        const toSide = setting.commands?.toSide ?? setting.commands?.sameGroup ?? base?.commands.toSide;
+        const sameGroup = setting.commands?.sameGroup ?? setting.commands?.toSide ?? base?.commands.sameGroup;
+        const viewType = setting.viewType ?? base?.viewType;
+
+        if (!toSide || !sameGroup || !viewType) {
+            return undefined;
+        }
+
+        const extensions = normalizeExtensions(setting.extensions ?? base?.extensions ?? []);
+
+        return { languageId, extensions, commands: { toSide, sameGroup }, viewType };
+    }
+
+    /**
+     * Rebuild the merged provider and extension lookups
+     */
+    private rebuild(): void {
+        this._providers = new Map([...this._builtIn, ...this._registered, ...this._configured]);
+        this._byExtension.clear();
+
+        for (const provider of this._providers.values()) {
+            for (const ext of provider.extensions) {
+                this._byExtension.set(ext, provider);
+            }
+        }
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
+
+/**
+ * Lowercase file extensions and add the leading dot, dropping invalid entries
+ */
+function normalizeExtensions(extensions: string[]): string[] {
+    return extensions
+        .filter(ext => typeof ext === 'string' && ext.length > 0)
+        .map(ext => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase());
+}
+
+/**
+ * Check if a tab's webview viewType matches a provider viewType.
+ * VS Code may prefix the viewType of extension webviews (e.g. "mainThreadWebview-markdown.preview").
+ */
+export function matchesViewType(actual: string, expected: string): boolean {
+    return actual === expected || actual.endsWith(`-${expected}`);
+}
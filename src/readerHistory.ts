@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+
+const STATE_KEY = 'previewMarkdown.readerHistory';
+
+/**
+ * Serialized form of the history kept in workspaceState
+ */
+interface StoredHistory {
+    entries: string[];
+    index: number;
+}
+
+/**
+ * Back/forward navigation history for preview-only (reader) mode.
+ * Behaves like browser history: opening a new document while in the middle
+ * of the stack drops the forward entries. Persisted in workspaceState so it
+ * survives window reloads.
+ */
+export class ReaderHistory implements vscode.Disposable {
+    private _entries: string[] = [];
+    private _index = -1;
+    private readonly MAX_ENTRIES = 50;
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+
+    /** Event fired when the history or the current position changes */
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly state: vscode.Memento) {
+        this.load();
+    }
+
+    /** Document currently shown in reader mode */
+    get current(): vscode.Uri | undefined {
+        const entry = this._entries[this._index];
+        return entry ? vscode.Uri.parse(entry) : undefined;
+    }
+
+    /** Whether there is an earlier document to go back to */
+    get canGoBack(): boolean {
+        return this._index > 0;
+    }
+
+    /** Whether there is a later document to go forward to */
+    get canGoForward(): boolean {
+        return this._index < this._entries.length - 1;
+    }
+
+    /**
+     * Recently read documents, most recent first, without duplicates
+     */
+    get recent(): vscode.Uri[] {
+        const seen = new Set<string>();
+        const result: vscode.Uri[] = [];
+
+        for (let i = this._entries.length - 1; i >= 0; i--) {
+            const entry = this._entries[i];
+            if (!seen.has(entry)) {
+                seen.add(entry);
+                result.push(vscode.Uri.parse(entry));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Record a document opened in reader mode.
+     * No-op if it is already the current entry (e.g. when navigating).
+     */
+    record(uri: vscode.Uri): void {
+        const entry = uri.toString();
+        if (this._entries[this._index] === entry) {
+            return;
+        }
+
+        // Drop forward entries, like a browser does
+        this._entries = this._entries.slice(0, this._index + 1);
+        this._entries.push(entry);
+
+        if (this._entries.length > this.MAX_ENTRIES) {
+            this._entries = this._entries.slice(-this.MAX_ENTRIES);
+        }
+        this._index = this._entries.length - 1;
+        this.save();
+    }
+
+    /**
+     * Document one entry back or forward, without moving there
+     */
+    peek(direction: 'back' | 'forward'): vscode.Uri | undefined {
+        const entry = this._entries[this._index + (direction === 'back' ? -1 : 1)];
+        return this._index >= 0 && entry ? vscode.Uri.parse(entry) : undefined;
+    }
+
+    /**
+     * Move one entry back and return the document to show
+     */
+    back(): vscode.Uri | undefined {
+        if (!this.canGoBack) {
+            return undefined;
+        }
+        this._index--;
+        this.save();
+        return this.current;
+    }
+
+    /**
+     * Move one entry forward and return the document to show
+     */
+    forward(): vscode.Uri | undefined {
+        if (!this.canGoForward) {
+            return undefined;
+        }
+        this._index++;
+        this.save();
+        return this.current;
+    }
+
+    /**
+     * Drop every entry of a document, e.g. one that was deleted or renamed.
+     * If it was the current entry, the entry before it becomes current.
+     */
+    remove(uri: vscode.Uri): void {
+        const target = uri.toString();
+        const entries: string[] = [];
+        let index = -1;
+
+        this._entries.forEach((entry, i) => {
+            // Removing an entry can leave the same document twice in a row
+            if (entry !== target && entry !== entries[entries.length - 1]) {
+                entries.push(entry);
+            }
+            if (i === this._index) {
+                index = entries.length - 1;
+            }
+        });
+
+        if (entries.length === this._entries.length) {
+            return;
+        }
+        this._entries = entries;
+        this._index = entries.length > 0 ? Math.max(index, 0) : -1;
+        this.save();
+    }
+
+    /**
+     * Clear all entries
+     */
+    clear(): void {
+        this._entries = [];
+        this._index = -1;
+        this.save();
+    }
+
+    /**
+     * Restore the history from workspaceState
+     */
+    private load(): void {
+        const stored = this.state.get<StoredHistory>(STATE_KEY);
+        if (!stored || !Array.isArray(stored.entries)) {
+            return;
+        }
+
+        this._entries = stored.entries.filter(entry => typeof entry === 'string');
+        const index = typeof stored.index === 'number' ? stored.index : this._entries.length - 1;
+        this._index = Math.min(Math.max(index, -1), this._entries.length - 1);
+    }
+
+    /**
+     * Persist the history to workspaceState and notify listeners
+     */
+    private save(): void {
+        const stored: StoredHistory = { entries: this._entries, index: this._index };
+        this.state.update(STATE_KEY, stored);
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import { BlockChange, diffBlocks, splitBlocks } from './blockDiff';
+import { DiffDetector } from './diffDetector';
+import { escapeHtml } from './html';
+import { logger } from './logger';
+import { uriBasename } from './uriUtils';
+
+/**
+ * An open redline panel and the diff it renders
+ */
+interface RedlinePanel {
+    panel: vscode.WebviewPanel;
+    diff: vscode.TabInputTextDiff;
+    renderTimeout?: NodeJS.Timeout;
+}
+
+/**
+ * Renders a "track changes" view of a diff in a single webview: the modified
+ * document with block-level additions, deletions and changes highlighted.
+ * Markdown blocks are rendered through the built-in `markdown.api.render`
+ * command so the output matches the normal preview.
+ */
+export class RedlinePreview implements vscode.Disposable {
+    private _disposables: vscode.Disposable[] = [];
+
+    // Open panels, keyed by diff key
+    private _panels: Map<string, RedlinePanel> = new Map();
+
+    private readonly RENDER_DEBOUNCE_MS = 300;
+
+    /** Webview viewType of redline panels */
+    static readonly VIEW_TYPE = 'previewMarkdown.redline';
+
+    constructor(private readonly diffDetector: DiffDetector) {
+        // Re-render when either side of a shown diff is edited
+        this._disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                const key = event.document.uri.toString();
+                for (const entry of this._panels.values()) {
+                    if (entry.diff.original.toString() === key || entry.diff.modified.toString() === key) {
+                        this.scheduleRender(entry);
+                    }
+                }
+            })
+        );
+    }
+
+    /**
+     * Show the redline view for a diff, revealing it if already open
+     */
+    async show(diff: vscode.TabInputTextDiff, viewColumn: vscode.ViewColumn = vscode.ViewColumn.Beside): Promise<void> {
+        const diffKey = this.diffDetector.getDiffKey(diff);
+        const existing = this._panels.get(diffKey);
+        if (existing) {
+            existing.panel.reveal(viewColumn, true);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            RedlinePreview.VIEW_TYPE,
+            `Redline ${uriBasename(diff.modified)}`,
+            { viewColumn, preserveFocus: true },
+            { enableFindWidget: true, localResourceRoots: this.getMarkdownMediaRoots() }
+        );
+
+        const entry: RedlinePanel = { panel, diff };
+        this._panels.set(diffKey, entry);
+
+        panel.onDidDispose(() => {
+            if (entry.renderTimeout) {
+                clearTimeout(entry.renderTimeout);
+            }
+            this._panels.delete(diffKey);
+        });
+
+        await this.render(entry);
+    }
+
+    /**
+     * Close the redline view of a diff, if open
+     */
+    close(diff: vscode.TabInputTextDiff): void {
+        this._panels.get(this.diffDetector.getDiffKey(diff))?.panel.dispose();
+    }
+
+    /**
+     * Check if a redline view is open for a diff
+     */
+    isOpen(diff: vscode.TabInputTextDiff): boolean {
+        return this._panels.has(this.diffDetector.getDiffKey(diff));
+    }
+
+    /**
+     * Debounce re-rendering while the user types
+     */
+    private scheduleRender(entry: RedlinePanel): void {
+        if (entry.renderTimeout) {
+            clearTimeout(entry.renderTimeout);
+        }
+        entry.renderTimeout = setTimeout(() => {
+            entry.renderTimeout = undefined;
+            this.render(entry);
+        }, this.RENDER_DEBOUNCE_MS);
+    }
+
+    /**
+     * Diff both sides and render the result into the panel
+     */
+    private async render(entry: RedlinePanel): Promise<void> {
+        try {
+            const [original, modified] = await Promise.all([
+                vscode.workspace.openTextDocument(entry.diff.original),
+                vscode.workspace.openTextDocument(entry.diff.modified)
+            ]);
+
+            const changes = diffBlocks(splitBlocks(original.getText()), splitBlocks(modified.getText()));
+            const isMarkdown = modified.languageId === 'markdown';
+            const body: string[] = [];
+
+            for (const change of changes) {
+                body.push(await this.renderChange(change, isMarkdown));
+            }
+
+            entry.panel.webview.html = this.getHtml(entry.panel.webview, body.join('\n'));
+        } catch (error) {
+            logger.error('Failed to render redline view', error, { uri: entry.diff.modified });
+        }
+    }
+
+    /**
+     * Render one block change as HTML
+     */
+    private async renderChange(change: BlockChange, isMarkdown: boolean): Promise<string> {
+        switch (change.kind) {
+            case 'unchanged':
+                return this.renderBlock(change.modified ?? '', isMarkdown);
+            case 'added':
+                return `<ins class="redline-block added">${await this.renderBlock(change.modified ?? '', isMarkdown)}</ins>`;
+            case 'removed':
+                return `<del class="redline-block removed">${await this.renderBlock(change.original ?? '', isMarkdown)}</del>`;
+            case 'changed':
+                return `<div class="redline-block changed">` +
+                    `<del class="removed">${await this.renderBlock(change.original ?? '', isMarkdown)}</del>` +
+                    `<ins class="added">${await this.renderBlock(change.modified ?? '', isMarkdown)}</ins>` +
+                    `</div>`;
+        }
+    }
+
+    /**
+     * Render a block of source text to HTML.
+     * Markdown goes through the built-in renderer; other languages are shown as text.
+     */
+    private async renderBlock(text: string, isMarkdown: boolean): Promise<string> {
+        if (isMarkdown) {
+            const html = await vscode.commands.executeCommand<string>('markdown.api.render', text);
+            if (typeof html === 'string') {
+                return html;
+            }
+        }
+        return `<pre>${escapeHtml(text)}</pre>`;
+    }
+
+    /**
+     * Folder of the built-in markdown extension's preview styles, if available
+     */
+    private getMarkdownMediaRoots(): vscode.Uri[] {
+        const markdown = vscode.extensions.getExtension('vscode.markdown-language-features');
+        return markdown ? [vscode.Uri.joinPath(markdown.extensionUri, 'media')] : [];
+    }
+
+    /**
+     * Wrap rendered blocks in a page using the markdown preview styles and theme colors
+     */
+    private getHtml(webview: vscode.Webview, body: string): string {
+        const styles = this.getMarkdownMediaRoots()
+            .map(root => `<link rel="stylesheet" href="${webview.asWebviewUri(vscode.Uri.joinPath(root, 'markdown.css'))}">`)
+            .join('\n');
+
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; img-src ${webview.cspSource} https: data:;">
+    ${styles}
+    <style>
+        body { padding: 0 26px; }
+        .redline-block { display: block; text-decoration: none; padding: 0 8px; margin: 0 -8px; }
+        ins.added, .added { display: block; text-decoration: none; background: var(--vscode-diffEditor-insertedTextBackground); border-left: 3px solid var(--vscode-gitDecoration-addedResourceForeground); padding-left: 8px; }
+        del.removed, .removed { display: block; text-decoration: line-through; opacity: 0.75; background: var(--vscode-diffEditor-removedTextBackground); border-left: 3px solid var(--vscode-gitDecoration-deletedResourceForeground); padding-left: 8px; }
+        .changed { border-left: 3px solid var(--vscode-gitDecoration-modifiedResourceForeground); }
+    </style>
+</head>
+<body class="vscode-body">
+${body}
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        for (const entry of this._panels.values()) {
+            entry.panel.dispose();
+        }
+        this._panels.clear();
+        this._disposables.forEach(d => d.dispose());
+    }
+}
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from './configManager';
+import { DiffDetector } from './diffDetector';
+import { PreviewManager } from './previewManager';
+
+/** Settings the status bar shows */
+export type StatusSettings = Pick<ConfigManager, 'onConfigChanged' | 'getConfigFor' | 'getOverrides'>;
+
+/** Diff lookups that decide whether auto preview is suppressed */
+export type StatusDiffs = Pick<DiffDetector, 'isDiffEditor' | 'isDocumentInDiffView'>;
+
+/** Preview state the status bar and its menu describe */
+export type StatusPreviews = Pick<PreviewManager, 'getActiveSourceUri' | 'isPreviewOpen'>;
+
+/**
+ * Window events the status bar refreshes on, and the item and command it registers
+ */
+export interface StatusBarHost {
+    onDidChangeActiveTextEditor: vscode.Event<vscode.TextEditor | undefined>;
+    onDidChangeTabs: vscode.Event<vscode.TabChangeEvent>;
+    onDidChangeTabGroups: vscode.Event<vscode.TabGroupChangeEvent>;
+    createStatusBarItem(id: string, alignment: vscode.StatusBarAlignment, priority: number): vscode.StatusBarItem;
+    registerCommand(command: string, callback: () => unknown): vscode.Disposable;
+}
+
+/**
+ * The VS Code window
+ */
+function windowHost(): StatusBarHost {
+    return {
+        onDidChangeActiveTextEditor: vscode.window.onDidChangeActiveTextEditor,
+        onDidChangeTabs: vscode.window.tabGroups.onDidChangeTabs,
+        onDidChangeTabGroups: vscode.window.tabGroups.onDidChangeTabGroups,
+        createStatusBarItem: (id, alignment, priority) => vscode.window.createStatusBarItem(id, alignment, priority),
+        registerCommand: (command, callback) => vscode.commands.registerCommand(command, callback)
+    };
+}
+
+/**
+ * Quick pick entry that runs a command when chosen
+ */
+interface MenuItem extends vscode.QuickPickItem {
+    command: string;
+}
+
+/**
+ * Persistent status bar item showing the auto-preview state for the active file:
+ * off, on, reader mode, or suppressed because the file is shown in a diff.
+ * A pin marks settings overridden for the session or the workspace.
+ * Clicking it opens a quick pick menu with the most common actions.
+ */
+export class StatusBarController implements vscode.Disposable {
+    private _disposables: vscode.Disposable[] = [];
+    private _item: vscode.StatusBarItem;
+
+    /** Command bound to the status bar item */
+    static readonly MENU_COMMAND = 'previewMarkdown.showMenu';
+
+    constructor(
+        private readonly configManager: StatusSettings,
+        private readonly diffDetector: StatusDiffs,
+        private readonly previewManager: StatusPreviews,
+        host: StatusBarHost = windowHost()
+    ) {
+        this._item = host.createStatusBarItem('previewMarkdown.status', vscode.StatusBarAlignment.Right, 100);
+        this._item.name = 'Auto Preview Markdown';
+        this._item.command = StatusBarController.MENU_COMMAND;
+
+        this._disposables.push(
+            this._item,
+            host.registerCommand(StatusBarController.MENU_COMMAND, () => this.showMenu()),
+            this.configManager.onConfigChanged(() => this.update()),
+            host.onDidChangeActiveTextEditor(() => this.update()),
+            host.onDidChangeTabs(() => this.update()),
+            host.onDidChangeTabGroups(() => this.update())
+        );
+
+        this.update();
+    }
+
+    /**
+     * Refresh the status bar item for the current active file.
+     * Hidden when neither a supported document nor one of its previews is active.
+     */
+    update(): void {
+        const uri = this.previewManager.getActiveSourceUri();
+        if (!uri) {
+            this._item.hide();
+            return;
+        }
+
+        const config = this.configManager.getConfigFor(uri);
+
+        if (!config.enabled) {
+            this._item.text = '$(circle-slash) Auto Preview';
+            this._item.tooltip = 'Auto Preview Markdown is disabled. Click for options.';
+        } else if (this.isSuppressedByDiff(uri)) {
+            this._item.text = '$(diff) Auto Preview';
+            this._item.tooltip = 'Auto preview suppressed: this file is shown in a diff. Click for options.';
+        } else if (config.previewOnlyMode) {
+            this._item.text = '$(book) Reader';
+            this._item.tooltip = 'Preview-only (reader) mode is on. Click for options.';
+        } else {
+            this._item.text = '$(open-preview) Auto Preview';
+            const following = config.followActiveEditor ? 'following the active editor, ' : '';
+            this._item.tooltip = `Auto preview is on (${following}${config.layout} layout). Click for options.`;
+        }
+
+        const overrides = this.configManager.getOverrides();
+        if (overrides.length > 0) {
+            const described = overrides
+                .map(override => `${override.setting} = ${override.value} (${override.scope})`)
+                .join(', ');
+            this._item.text += ' $(pinned)';
+            this._item.tooltip += `\nOverridden: ${described}`;
+        }
+
+        this._item.show();
+    }
+
+    /**
+     * Check if auto preview is skipped for a document because it is shown in a diff
+     */
+    private isSuppressedByDiff(uri: vscode.Uri): boolean {
+        const config = this.configManager.getConfigFor(uri);
+        return !config.openOnGitDiff &&
+            (this.diffDetector.isDiffEditor() || this.diffDetector.isDocumentInDiffView(uri));
+    }
+
+    /**
+     * Show the quick pick menu of actions for the current state
+     */
+    private async showMenu(): Promise<void> {
+        const uri = this.previewManager.getActiveSourceUri();
+        const config = this.configManager.getConfigFor(uri);
+        const items: MenuItem[] = [
+            {
+                label: config.enabled ? '$(circle-slash) Disable Auto Preview' : '$(check) Enable Auto Preview',
+                command: 'previewMarkdown.toggleEnabled'
+            },
+            {
+                label: config.previewOnlyMode ? '$(split-horizontal) Switch to Side-by-Side Mode' : '$(book) Switch to Reader Mode',
+                command: 'previewMarkdown.togglePreviewOnlyMode'
+            },
+            {
+                label: '$(layout) Cycle Preview Layout',
+                description: config.layout,
+                command: 'previewMarkdown.cycleLayout'
+            }
+        ];
+
+        if (uri) {
+            items.push(this.previewManager.isPreviewOpen(uri)
+                ? { label: '$(close) Close Preview for Current File', command: 'previewMarkdown.closePreview' }
+                : { label: '$(open-preview) Open Preview for Current File', command: 'previewMarkdown.openPreview' }
+            );
+        }
+
+        const overrides = this.configManager.getOverrides();
+        if (overrides.length > 0) {
+            items.push({
+                label: '$(discard) Clear Overrides',
+                description: overrides.map(override => override.setting).join(', '),
+                command: 'previewMarkdown.clearOverrides'
+            });
+        }
+
+        items.push({ label: '$(question) Why Didn\'t My Preview Open?', command: 'previewMarkdown.explain' });
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Auto Preview Markdown' });
+        if (picked) {
+            await vscode.commands.executeCommand(picked.command);
+        }
+    }
+
+    dispose(): void {
+        this._disposables.forEach(d => d.dispose());
+    }
+}
@@ -1,84 +1,344 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import { SupportedLanguage, PREVIEW_VIEW_TYPES, FILE_EXTENSIONS } from './types';
+import { PreviewMode, PreviewPlacement, SupportedLanguage, TrackedPreview } from './types';
+import { ProviderRegistry, matchesViewType } from './providerRegistry';
 import { logger } from './logger';
+import { uriExtname } from './uriUtils';
+
+const STATE_KEY = 'previewMarkdown.trackedPreviews';
+
+/**
+ * Serialized form of a TrackedPreview kept in workspaceState.
+ * The tab itself cannot be stored, so enough of it is kept to find it again.
+ */
+export interface StoredPreview {
+    sourceUri: string;
+    languageId: SupportedLanguage;
+    openedAt: number;
+    mode: PreviewMode;
+    lastActiveAt?: number;
+    manual?: boolean;
+    viewType: string;
+    label: string;
+    viewColumn: vscode.ViewColumn;
+}
+
+/**
+ * Options for TabTracker.openAndTrack
+ */
+export interface OpenAndTrackOptions {
+    /** Whether the command opens the preview beside the active group (default: true) */
+    toSide?: boolean;
+    /** How the preview is opened (default: 'preview') */
+    mode?: PreviewMode;
+    /** Whether the preview was requested by the user rather than opened automatically */
+    manual?: boolean;
+    /** Webview viewType of the preview, when it is not the language provider's (e.g. the fallback preview) */
+    viewType?: string;
+}
 
 /**
  * Tracks the relationship between source files and their preview tabs.
  * Used to close preview tabs when their corresponding source files are closed.
  *
- * Key insight: VS Code preview tabs have a specific label format "Preview filename.md"
- * and use TabInputWebview with a viewType like "markdown.preview".
+ * Key insight: tab labels are neither unique ("Preview README.md" can belong to
+ * docs/README.md or api/README.md) nor stable across display languages
+ * ("Vorschau README.md" in German), so they are never matched against.
+ * Each preview tab is captured when it appears after the open command runs,
+ * identified by its webview viewType and its editor group relative to the
+ * open action, and recorded as a TrackedPreview. All lookups and closes go
+ * through that registry.
+ *
+ * When given a Memento, the registry is persisted so that previews restored
+ * by VS Code after a window reload are re-attached to their sources.
  */
 export class TabTracker implements vscode.Disposable {
     private _disposables: vscode.Disposable[] = [];
 
+    // Authoritative source → preview pairings, keyed by source URI
+    private _tracked: Map<string, TrackedPreview> = new Map();
+
     // Debounce tracking to handle VS Code firing multiple events
     private _lastProcessedClose: Map<string, number> = new Map();
     private readonly DEBOUNCE_MS = 100;
 
-    constructor() {}
+    // How long to wait for a preview tab to appear after running the open command
+    private readonly CAPTURE_TIMEOUT_MS = 1000;
+    private readonly CAPTURE_POLL_MS = 25;
 
-    /**
-     * Get the expected preview tab label for a source file.
-     * VS Code formats preview labels as "Preview filename.ext"
-     */
-    getExpectedPreviewLabel(uri: vscode.Uri): string {
-        const filename = path.basename(uri.fsPath);
-        return `Preview ${filename}`;
+    // Writes to workspaceState are batched, and skipped when nothing persisted changed
+    private _saveTimeout: NodeJS.Timeout | undefined;
+    private _savedSnapshot: string | undefined;
+    private readonly SAVE_DEBOUNCE_MS = 500;
+
+    // Open actions run one at a time, so each captures only the tab it produced
+    private _opening: Promise<unknown> = Promise.resolve();
+
+    private _onDidTrackPreview = new vscode.EventEmitter<TrackedPreview>();
+    private _onDidUntrackPreview = new vscode.EventEmitter<TrackedPreview>();
+    private _onDidFocusPreview = new vscode.EventEmitter<TrackedPreview>();
+
+    /** Event fired when a preview is paired with its source */
+    public readonly onDidTrackPreview = this._onDidTrackPreview.event;
+
+    /** Event fired when a pairing is dropped, because its preview was closed or replaced */
+    public readonly onDidUntrackPreview = this._onDidUntrackPreview.event;
+
+    /** Event fired when the tab of a tracked preview becomes active */
+    public readonly onDidFocusPreview = this._onDidFocusPreview.event;
+
+    constructor(
+        private readonly providers: ProviderRegistry = new ProviderRegistry(),
+        private readonly state?: vscode.Memento
+    ) {
+        // Drop registry entries whose preview tab was closed
+        this._disposables.push(
+            vscode.window.tabGroups.onDidChangeTabs(event => {
+                this.handleTabChanges(event);
+            })
+        );
     }
 
     /**
      * Check if a URI is a supported markup file based on extension.
      */
     isSupported(uri: vscode.Uri): boolean {
-        const ext = path.extname(uri.fsPath).toLowerCase();
-        return ext in FILE_EXTENSIONS;
+        return this.getLanguageId(uri) !== undefined;
     }
 
     /**
      * Get the language ID for a URI based on file extension.
      */
     getLanguageId(uri: vscode.Uri): SupportedLanguage | undefined {
-        const ext = path.extname(uri.fsPath).toLowerCase();
-        return FILE_EXTENSIONS[ext];
+        return this.providers.getByExtension(uriExtname(uri))?.languageId;
+    }
+
+    /** All currently tracked previews */
+    get trackedPreviews(): TrackedPreview[] {
+        return Array.from(this._tracked.values());
     }
 
     /**
-     * Find the preview tab for a given source file URI.
-     * Searches all tab groups for a WebView tab with matching label.
-     *
-     * @param uri The source document URI
-     * @returns The preview tab if found
+     * The tracked preview that was opened or focused most recently
      */
-    findPreviewTab(uri: vscode.Uri): vscode.Tab | undefined {
-        const expectedLabel = this.getExpectedPreviewLabel(uri);
-        const languageId = this.getLanguageId(uri);
+    get mostRecentPreview(): TrackedPreview | undefined {
+        let latest: TrackedPreview | undefined;
+        for (const tracked of this._tracked.values()) {
+            if (!latest || (tracked.lastActiveAt ?? tracked.openedAt) >= (latest.lastActiveAt ?? latest.openedAt)) {
+                latest = tracked;
+            }
+        }
+        return latest;
+    }
 
-        if (!languageId) {
+    /**
+     * Get the tracked preview record for a source file, if its tab still exists.
+     */
+    getTrackedPreview(uri: vscode.Uri): TrackedPreview | undefined {
+        const key = uri.toString();
+        const tracked = this._tracked.get(key);
+        if (!tracked) {
             return undefined;
         }
 
-        const expectedViewType = PREVIEW_VIEW_TYPES[languageId];
-
-        for (const group of vscode.window.tabGroups.all) {
-            for (const tab of group.tabs) {
-                if (tab.input instanceof vscode.TabInputWebview) {
-                    // Match by label (most reliable) or viewType
-                    if (tab.label === expectedLabel) {
-                        return tab;
-                    }
-                    // Fallback: check viewType if label doesn't match exactly
-                    if (tab.input.viewType === expectedViewType &&
-                        tab.label.includes(path.basename(uri.fsPath))) {
-                        return tab;
-                    }
-                }
+        if (!this.tabExists(tracked.tab)) {
+            this.remove(key);
+            this.save();
+            return undefined;
+        }
+        return tracked;
+    }
+
+    /**
+     * Find the tracked preview record that owns a tab.
+     */
+    findByTab(tab: vscode.Tab): TrackedPreview | undefined {
+        for (const tracked of this._tracked.values()) {
+            if (tracked.tab === tab) {
+                return tracked;
             }
         }
         return undefined;
     }
 
+    /**
+     * Check if a tab is a preview tab: a webview of a registered provider's
+     * viewType, or a tab owned by a tracked preview.
+     */
+    isPreviewTab(tab: vscode.Tab): boolean {
+        if (!(tab.input instanceof vscode.TabInputWebview)) {
+            return false;
+        }
+        return this.providers.isPreviewViewType(tab.input.viewType) || this.findByTab(tab) !== undefined;
+    }
+
+    /**
+     * Get all open preview tabs across all tab groups.
+     */
+    getPreviewTabs(): vscode.Tab[] {
+        return this.getAllTabs().filter(tab => this.isPreviewTab(tab));
+    }
+
+    /**
+     * Record a source → preview pairing.
+     * A preview tab shows one document at a time, so any previous owner of
+     * the same tab (e.g. a dynamic preview that switched documents) is dropped.
+     * A source has one preview, so a previous preview of the same source is
+     * dropped and its tab closed.
+     */
+    track(preview: TrackedPreview): void {
+        const key = preview.sourceUri.toString();
+        const replaced = this._tracked.get(key);
+
+        for (const [trackedKey, tracked] of this._tracked) {
+            if (tracked.tab === preview.tab) {
+                this.remove(trackedKey);
+            }
+        }
+
+        if (replaced && replaced.tab !== preview.tab) {
+            this.remove(key);
+            if (this.tabExists(replaced.tab)) {
+                vscode.window.tabGroups.close(replaced.tab).then(undefined, error =>
+                    logger.debug(`Could not close replaced preview: ${error}`, { uri: preview.sourceUri }));
+            }
+        }
+
+        this._tracked.set(preview.sourceUri.toString(), preview);
+        this.save();
+        logger.trace('Tracking preview', { uri: preview.sourceUri, language: preview.languageId });
+        this._onDidTrackPreview.fire(preview);
+    }
+
+    /**
+     * Forget the pairing for a source file without closing its preview.
+     */
+    untrack(uri: vscode.Uri): void {
+        if (this.remove(uri.toString())) {
+            this.save();
+        }
+    }
+
+    /**
+     * Drop a pairing from the registry and notify listeners
+     */
+    private remove(key: string): boolean {
+        const tracked = this._tracked.get(key);
+        if (!tracked) {
+            return false;
+        }
+        this._tracked.delete(key);
+        this._onDidUntrackPreview.fire(tracked);
+        return true;
+    }
+
+    /**
+     * Re-attach pairings saved before a window reload to the preview tabs
+     * VS Code restored (see matchStoredPreviews); pairings without a tab are dropped.
+     *
+     * @returns The number of restored pairings
+     */
+    restore(): number {
+        if (!this.state) {
+            return 0;
+        }
+
+        const stored = this.state.get<StoredPreview[]>(STATE_KEY, []);
+        const untrackedTabs = this.getAllTabs().filter(tab => !this.findByTab(tab));
+        const matched = matchStoredPreviews(Array.isArray(stored) ? stored : [], untrackedTabs);
+
+        for (const [record, tab] of matched) {
+            this._tracked.set(record.sourceUri, {
+                sourceUri: vscode.Uri.parse(record.sourceUri),
+                languageId: record.languageId,
+                openedAt: record.openedAt,
+                mode: record.mode ?? 'preview',
+                lastActiveAt: record.lastActiveAt,
+                manual: record.manual,
+                tab
+            });
+        }
+
+        this.save();
+        if (this._tracked.size > 0) {
+            logger.info(`Restored ${this._tracked.size} preview pairing(s)`);
+        }
+        return this._tracked.size;
+    }
+
+    /**
+     * Run a command that opens a preview and capture the preview tab it produces.
+     * Opens are queued: an open starts once the previous one has captured its tab.
+     *
+     * @param sourceUri The source document URI
+     * @param languageId The language of the source document
+     * @param open Callback that runs the preview command
+     * @param options Where the command puts the preview and how it was opened
+     * @returns The tracked preview, or undefined if no preview tab could be identified
+     */
+    openAndTrack(
+        sourceUri: vscode.Uri,
+        languageId: SupportedLanguage,
+        open: () => Thenable<unknown>,
+        options: OpenAndTrackOptions = {}
+    ): Promise<TrackedPreview | undefined> {
+        const result = this._opening.then(() => this.captureOpen(sourceUri, languageId, open, options));
+        // A failed open must not block the ones queued after it
+        this._opening = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Run an open action and capture its preview tab
+     */
+    private async captureOpen(
+        sourceUri: vscode.Uri,
+        languageId: SupportedLanguage,
+        open: () => Thenable<unknown>,
+        options: OpenAndTrackOptions
+    ): Promise<TrackedPreview | undefined> {
+        const provider = this.providers.get(languageId);
+        const before = new Map(this.getAllTabs().map(tab => [tab, tab.label]));
+        const placement: PreviewPlacement = {
+            originColumn: vscode.window.tabGroups.activeTabGroup?.viewColumn,
+            toSide: options.toSide ?? true
+        };
+
+        await open();
+
+        if (!provider) {
+            return undefined;
+        }
+
+        const tab = await this.waitForPreviewTab(before, options.viewType ?? provider.viewType, sourceUri, placement);
+        if (!tab) {
+            logger.debug('Could not identify preview tab', { uri: sourceUri, language: languageId });
+            return undefined;
+        }
+
+        const now = Date.now();
+        const preview: TrackedPreview = {
+            sourceUri,
+            languageId,
+            openedAt: now,
+            mode: options.mode ?? 'preview',
+            lastActiveAt: now,
+            manual: options.manual ?? false,
+            tab
+        };
+        this.track(preview);
+        return preview;
+    }
+
+    /**
+     * Find the preview tab for a given source file URI.
+     *
+     * @param uri The source document URI
+     * @returns The preview tab if found
+     */
+    findPreviewTab(uri: vscode.Uri): vscode.Tab | undefined {
+        return this.getTrackedPreview(uri)?.tab;
+    }
+
     /**
      * Check if a preview is already open for the given source file.
      */
@@ -91,9 +351,10 @@ export class TabTracker implements vscode.Disposable {
      * Uses debouncing to prevent duplicate close attempts.
      *
      * @param uri The source document URI whose preview should be closed
+     * @param reason Why the preview is closed, for the log
      * @returns true if a preview was found and close was initiated
      */
-    async closePreviewForFile(uri: vscode.Uri): Promise<boolean> {
+    async closePreviewForFile(uri: vscode.Uri, reason: string): Promise<boolean> {
         const key = uri.toString();
         const now = Date.now();
         const lastProcessed = this._lastProcessedClose.get(key) || 0;
@@ -106,13 +367,14 @@ export class TabTracker implements vscode.Disposable {
 
         const previewTab = this.findPreviewTab(uri);
         if (previewTab) {
+            this.untrack(uri);
             try {
                 await vscode.window.tabGroups.close(previewTab);
-                logger.debug(`Closed preview for ${path.basename(uri.fsPath)}`);
+                logger.debug('Closed preview', { uri, decision: `close: ${reason}` });
                 return true;
             } catch (error) {
                 // Tab may have already been closed
-                logger.debug(`Could not close preview (may already be closed)`, error);
+                logger.debug(`Could not close preview (may already be closed): ${error}`, { uri });
                 return false;
             }
         }
@@ -134,8 +396,291 @@ export class TabTracker implements vscode.Disposable {
         }
     }
 
+    /**
+     * Pick the preview tab produced by an open action from the current tabs.
+     * Prefers a tab that did not exist before the action ran, then an existing
+     * preview that switched to the new document (its label changed). Among
+     * candidates, tabs in the group the action targeted win.
+     *
+     * @param tabs All tabs after the action ran
+     * @param before Tabs that existed before the action ran, with their labels
+     * @param viewType Provider viewType of the expected preview
+     * @param placement Where the action was expected to put the preview
+     */
+    selectPreviewTab(
+        tabs: readonly vscode.Tab[],
+        before: ReadonlyMap<vscode.Tab, string>,
+        viewType: string,
+        placement: PreviewPlacement
+    ): vscode.Tab | undefined {
+        const previews = tabs.filter(tab => this.isWebviewOfType(tab, viewType));
+
+        const created = previews.filter(tab => !before.has(tab));
+        if (created.length > 0) {
+            return this.pickByPlacement(created, placement);
+        }
+
+        const retargeted = previews.filter(tab => before.has(tab) && before.get(tab) !== tab.label);
+        if (retargeted.length > 0) {
+            return this.pickByPlacement(retargeted, placement);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Poll the tab model until the preview tab produced by an open action shows up.
+     * Falls back to an already-open preview that the action only revealed.
+     */
+    private async waitForPreviewTab(
+        before: Map<vscode.Tab, string>,
+        viewType: string,
+        sourceUri: vscode.Uri,
+        placement: PreviewPlacement
+    ): Promise<vscode.Tab | undefined> {
+        const deadline = Date.now() + this.CAPTURE_TIMEOUT_MS;
+
+        while (Date.now() < deadline) {
+            const tab = this.selectPreviewTab(this.getAllTabs(), before, viewType, placement);
+            if (tab) {
+                return tab;
+            }
+            await this.delay(this.CAPTURE_POLL_MS);
+        }
+
+        // No new or changed tab: the action may have revealed an existing preview
+        const key = sourceUri.toString();
+        const revealed = vscode.window.tabGroups.all
+            .map(group => group.activeTab)
+            .filter((tab): tab is vscode.Tab => {
+                if (!tab || !this.isWebviewOfType(tab, viewType)) {
+                    return false;
+                }
+                const owner = this.findByTab(tab);
+                return !owner || owner.sourceUri.toString() === key;
+            });
+        return revealed.length > 0 ? this.pickByPlacement(revealed, placement) : undefined;
+    }
+
+    /**
+     * Choose among candidate tabs, preferring the group the open action targeted
+     */
+    private pickByPlacement(candidates: vscode.Tab[], placement: PreviewPlacement): vscode.Tab {
+        const inTargetGroup = (tab: vscode.Tab): boolean => {
+            if (placement.originColumn === undefined) {
+                return true;
+            }
+            const inOrigin = tab.group.viewColumn === placement.originColumn;
+            return placement.toSide ? !inOrigin : inOrigin;
+        };
+
+        return candidates.find(tab => inTargetGroup(tab) && tab.isActive)
+            ?? candidates.find(inTargetGroup)
+            ?? candidates.find(tab => tab.isActive)
+            ?? candidates[0];
+    }
+
+    /**
+     * Keep the registry in sync with closed or moved preview tabs
+     */
+    private handleTabChanges(event: vscode.TabChangeEvent): void {
+        if (this._tracked.size === 0) {
+            return;
+        }
+
+        for (const closed of event.closed) {
+            const tracked = this.findByTab(closed);
+            if (!tracked) {
+                continue;
+            }
+
+            // Moving a tab to another group closes it and opens a new Tab object
+            const moved = event.opened.find(tab =>
+                tab.label === closed.label &&
+                tab.input instanceof vscode.TabInputWebview &&
+                closed.input instanceof vscode.TabInputWebview &&
+                tab.input.viewType === closed.input.viewType
+            );
+
+            if (moved) {
+                tracked.tab = moved;
+            } else {
+                this.remove(tracked.sourceUri.toString());
+            }
+        }
+
+        // Remember when each preview was last looked at
+        for (const tab of [...event.opened, ...event.changed]) {
+            const tracked = tab.isActive ? this.findByTab(tab) : undefined;
+            if (tracked) {
+                tracked.lastActiveAt = Date.now();
+                this._onDidFocusPreview.fire(tracked);
+            }
+        }
+
+        // Labels and groups of tracked tabs may have changed as well
+        this.save();
+    }
+
+    /**
+     * Schedule persisting the registry to workspaceState
+     */
+    private save(): void {
+        if (!this.state) {
+            return;
+        }
+        if (this._saveTimeout) {
+            clearTimeout(this._saveTimeout);
+        }
+        this._saveTimeout = setTimeout(() => {
+            this._saveTimeout = undefined;
+            this.flush();
+        }, this.SAVE_DEBOUNCE_MS);
+    }
+
+    /**
+     * Persist the registry to workspaceState now, if it changed since the last write
+     */
+    flush(): Thenable<void> {
+        if (this._saveTimeout) {
+            clearTimeout(this._saveTimeout);
+            this._saveTimeout = undefined;
+        }
+        if (!this.state) {
+            return Promise.resolve();
+        }
+
+        const stored = this.serialize();
+        const snapshot = JSON.stringify(stored);
+        if (snapshot === this._savedSnapshot) {
+            return Promise.resolve();
+        }
+        this._savedSnapshot = snapshot;
+        return this.state.update(STATE_KEY, stored).then(undefined, error => {
+            // Write again next time
+            this._savedSnapshot = undefined;
+            logger.warn(`Could not save tracked previews: ${error}`);
+        });
+    }
+
+    /**
+     * Serialized form of the registry
+     */
+    private serialize(): StoredPreview[] {
+        const stored: StoredPreview[] = [];
+        for (const tracked of this._tracked.values()) {
+            if (tracked.tab.input instanceof vscode.TabInputWebview) {
+                stored.push({
+                    sourceUri: tracked.sourceUri.toString(),
+                    languageId: tracked.languageId,
+                    openedAt: tracked.openedAt,
+                    mode: tracked.mode,
+                    lastActiveAt: tracked.lastActiveAt,
+                    manual: tracked.manual,
+                    viewType: tracked.tab.input.viewType,
+                    label: tracked.tab.label,
+                    viewColumn: tracked.tab.group.viewColumn
+                });
+            }
+        }
+        return stored;
+    }
+
+    /**
+     * Check if a tab is a webview of the given (possibly prefixed) viewType
+     */
+    private isWebviewOfType(tab: vscode.Tab, viewType: string): boolean {
+        return tab.input instanceof vscode.TabInputWebview &&
+            matchesViewType(tab.input.viewType, viewType);
+    }
+
+    /**
+     * Check if a tab is still present in any tab group
+     */
+    private tabExists(tab: vscode.Tab): boolean {
+        return this.getAllTabs().includes(tab);
+    }
+
+    /**
+     * Get all tabs across all tab groups
+     */
+    private getAllTabs(): vscode.Tab[] {
+        return vscode.window.tabGroups.all.flatMap(group => group.tabs);
+    }
+
+    /**
+     * Utility delay function
+     */
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
     dispose(): void {
+        this.flush();
+        this._tracked.clear();
         this._lastProcessedClose.clear();
+        this._onDidTrackPreview.dispose();
+        this._onDidUntrackPreview.dispose();
+        this._onDidFocusPreview.dispose();
         this._disposables.forEach(d => d.dispose());
     }
 }
+
+/**
+ * Pair saved previews with restored tabs. Tabs do not expose the document a
+ * webview shows, so a tab matches a saved preview when its viewType and label
+ * are the same, preferring the saved editor group. When several saved
+ * previews could own the same tab (e.g. "Preview README.md" of two folders),
+ * they are only paired within their own group, one tab per group; a preview
+ * that is still ambiguous is not re-attached rather than guessed.
+ */
+export function matchStoredPreviews(records: readonly StoredPreview[], tabs: readonly vscode.Tab[]): Map<StoredPreview, vscode.Tab> {
+    const matched = new Map<StoredPreview, vscode.Tab>();
+    const claimed = new Set<vscode.Tab>();
+
+    for (const record of records) {
+        const candidates = tabs.filter(tab =>
+            !claimed.has(tab) &&
+            tab.input instanceof vscode.TabInputWebview &&
+            tab.input.viewType === record.viewType &&
+            tab.label === record.label
+        );
+        const inColumn = candidates.filter(tab => tab.group.viewColumn === record.viewColumn);
+        const siblings = records.filter(other => other.viewType === record.viewType && other.label === record.label);
+        const siblingsInColumn = siblings.filter(other => other.viewColumn === record.viewColumn);
+
+        let tab: vscode.Tab | undefined;
+        if (siblingsInColumn.length === 1 && inColumn.length === 1) {
+            tab = inColumn[0];
+        } else if (siblings.length === 1 && candidates.length === 1) {
+            // The only preview with this label, in a tab that moved to another group
+            tab = candidates[0];
+        }
+
+        if (tab) {
+            claimed.add(tab);
+            matched.set(record, tab);
+        } else if (candidates.length > 0) {
+            logger.debug(`Not restoring ambiguous preview pairing "${record.label}"`, { uri: vscode.Uri.parse(record.sourceUri) });
+        }
+    }
+    return matched;
+}
+
+/**
+ * Choose which previews to close so that at most `max` stay open.
+ * Only automatically opened previews are candidates, least recently viewed first;
+ * manually opened previews and those in `keep` are never chosen.
+ */
+export function pickPreviewsToEvict(previews: TrackedPreview[], max: number, keep: vscode.Uri[] = []): TrackedPreview[] {
+    const excess = previews.length - max;
+    if (max <= 0 || excess <= 0) {
+        return [];
+    }
+
+    const kept = new Set(keep.map(uri => uri.toString()));
+    return previews
+        .filter(preview => !preview.manual && !kept.has(preview.sourceUri.toString()))
+        .sort((a, b) => (a.lastActiveAt ?? a.openedAt) - (b.lastActiveAt ?? b.openedAt))
+        .slice(0, excess);
+}
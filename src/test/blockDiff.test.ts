@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { diffBlocks, splitBlocks } from '../blockDiff';
+
+suite('Block Diff Test Suite', () => {
+    test('splitBlocks separates paragraphs on blank lines', () => {
+        const blocks = splitBlocks('# Title\n\nFirst paragraph\nstill first\n\n\nSecond');
+        assert.deepStrictEqual(blocks, ['# Title', 'First paragraph\nstill first', 'Second']);
+    });
+
+    test('splitBlocks keeps fenced code blocks whole', () => {
+        const text = 'Intro\n\n```js\nconst a = 1;\n\nconst b = 2;\n```\n\nOutro';
+        assert.deepStrictEqual(splitBlocks(text), [
+            'Intro',
+            '```js\nconst a = 1;\n\nconst b = 2;\n```',
+            'Outro'
+        ]);
+    });
+
+    test('splitBlocks keeps front matter whole', () => {
+        const text = '---\ntitle: Guide\n\norder: 2\n---\n# Guide';
+        assert.deepStrictEqual(splitBlocks(text), ['---\ntitle: Guide\n\norder: 2\n---', '# Guide']);
+    });
+
+    test('diffBlocks reports identical documents as unchanged', () => {
+        const blocks = ['# A', 'text'];
+        const changes = diffBlocks(blocks, blocks);
+        assert.deepStrictEqual(changes.map(c => c.kind), ['unchanged', 'unchanged']);
+    });
+
+    test('diffBlocks detects added and removed blocks', () => {
+        const changes = diffBlocks(['# A', 'one', 'two'], ['# A', 'two', 'three']);
+        assert.deepStrictEqual(changes.map(c => c.kind), ['unchanged', 'removed', 'unchanged', 'added']);
+        assert.strictEqual(changes[1].original, 'one');
+        assert.strictEqual(changes[3].modified, 'three');
+    });
+
+    test('diffBlocks pairs a replaced block as changed', () => {
+        const changes = diffBlocks(['# A', 'old text', '# B'], ['# A', 'new text', '# B']);
+        assert.deepStrictEqual(changes.map(c => c.kind), ['unchanged', 'changed', 'unchanged']);
+        assert.strictEqual(changes[1].original, 'old text');
+        assert.strictEqual(changes[1].modified, 'new text');
+    });
+
+    test('diffBlocks handles empty documents', () => {
+        assert.deepStrictEqual(diffBlocks([], ['new']).map(c => c.kind), ['added']);
+        assert.deepStrictEqual(diffBlocks(['old'], []).map(c => c.kind), ['removed']);
+    });
+});
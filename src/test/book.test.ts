@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { ChapterSource, isIndexFile, isSummaryFile, orderChapters, parseChapterLinks, parseChapterOrder } from '../book';
+
+function md(name: string, text = ''): ChapterSource {
+    return { name, languageId: 'markdown', text };
+}
+
+suite('Folder Book Test Suite', () => {
+    test('summary and index files are recognized', () => {
+        assert.ok(isSummaryFile('SUMMARY.md'));
+        assert.ok(!isSummaryFile('summary-notes.md'));
+        assert.ok(isIndexFile('index.rst'));
+        assert.ok(isIndexFile('README.md'));
+        assert.ok(!isIndexFile('docs/README.md'));
+    });
+
+    test('front matter order is read', () => {
+        assert.strictEqual(parseChapterOrder('---\ntitle: Setup\norder: 2\n---\n# Setup', 'markdown'), 2);
+        assert.strictEqual(parseChapterOrder('---\norder: "1.5" # between\n---', 'markdown'), 1.5);
+        assert.strictEqual(parseChapterOrder('---\ntitle: Setup\n---\norder: 2', 'markdown'), undefined);
+    });
+
+    test('AsciiDoc attributes and RST fields give the order', () => {
+        assert.strictEqual(parseChapterOrder('= Setup\n:order: 3\n', 'asciidoc'), 3);
+        assert.strictEqual(parseChapterOrder(':order: 4\n\nSetup\n=====\n', 'restructuredtext'), 4);
+        assert.strictEqual(parseChapterOrder(':order: 4\n', 'markdown'), undefined);
+    });
+
+    test('markdown links are read in order, without fragments or external links', () => {
+        const text = [
+            '* [Intro](intro.md)',
+            '* [Setup](./setup.md#install "Install") and [site](https://example.com)',
+            '* [Top](#top) [FAQ](<my faq.md>) [Tools](tools%20list.md)'
+        ].join('\n');
+        assert.deepStrictEqual(parseChapterLinks(text, 'markdown'), ['intro.md', './setup.md', 'my faq.md', 'tools list.md']);
+    });
+
+    test('AsciiDoc xrefs and includes are read', () => {
+        const text = '* xref:intro.adoc[Intro]\n* link:setup.adoc#s[Setup]\ninclude::faq.adoc[]\n* https://example.com[Site]';
+        assert.deepStrictEqual(parseChapterLinks(text, 'asciidoc'), ['intro.adoc', 'setup.adoc', 'faq.adoc']);
+    });
+
+    test('RST toctree entries are read, skipping options', () => {
+        const text = [
+            'Guide',
+            '=====',
+            '',
+            '.. toctree::',
+            '   :maxdepth: 2',
+            '',
+            '   intro',
+            '   Setting up <setup>',
+            '',
+            'After the tree',
+            'not-an-entry'
+        ].join('\n');
+        assert.deepStrictEqual(parseChapterLinks(text, 'restructuredtext'), ['intro', 'setup']);
+    });
+
+    test('file names are sorted numerically without a table of contents', () => {
+        const order = orderChapters([md('10-faq.md'), md('2-setup.md'), md('1-intro.md')]);
+        assert.deepStrictEqual(order, ['1-intro.md', '2-setup.md', '10-faq.md']);
+    });
+
+    test('front matter order comes before file names', () => {
+        const order = orderChapters([md('a.md'), md('b.md', '---\norder: 2\n---'), md('c.md', '---\norder: 1\n---')]);
+        assert.deepStrictEqual(order, ['c.md', 'b.md', 'a.md']);
+    });
+
+    test('SUMMARY gives the order and is not a chapter', () => {
+        const order = orderChapters([
+            md('SUMMARY.md', '* [Setup](setup.md)\n* [Intro](README.md)\n* [Deep dive](guide/deep.md)'),
+            md('README.md'),
+            md('setup.md'),
+            md('guide/deep.md'),
+            md('extra.md')
+        ]);
+        assert.deepStrictEqual(order, ['setup.md', 'README.md', 'guide/deep.md', 'extra.md']);
+    });
+
+    test('index file comes first and its links give the order', () => {
+        const order = orderChapters([
+            md('a.md'),
+            md('b.md'),
+            md('README.md', 'See [B](b.md)'),
+            md('index.md', 'Start with [B](b.md), then [missing](gone.md) and [A](a.md)')
+        ]);
+        assert.deepStrictEqual(order, ['index.md', 'b.md', 'a.md', 'README.md']);
+    });
+
+    test('extension-less toctree entries resolve to documents', () => {
+        const order = orderChapters([
+            { name: 'index.rst', languageId: 'restructuredtext', text: '.. toctree::\n\n   setup\n   intro\n' },
+            { name: 'intro.rst', languageId: 'restructuredtext', text: '' },
+            { name: 'setup.rst', languageId: 'restructuredtext', text: '' }
+        ]);
+        assert.deepStrictEqual(order, ['index.rst', 'setup.rst', 'intro.rst']);
+    });
+
+    test('links outside the folder are ignored', () => {
+        const order = orderChapters([md('index.md', '[Up](../other.md) [A](a.md)'), md('a.md')]);
+        assert.deepStrictEqual(order, ['index.md', 'a.md']);
+    });
+});
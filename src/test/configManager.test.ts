@@ -1,6 +1,7 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 import { ConfigManager } from '../configManager';
+import { PREVIEW_LAYOUTS, PreviewLayout } from '../types';
 
 suite('ConfigManager Test Suite', () => {
     let configManager: ConfigManager;
@@ -23,7 +24,7 @@ suite('ConfigManager Test Suite', () => {
         assert.strictEqual(typeof config.openOnGitDiff, 'boolean');
         assert.strictEqual(typeof config.previewOnlyMode, 'boolean');
         assert.strictEqual(typeof config.preserveFocus, 'boolean');
-        assert.strictEqual(typeof config.languages, 'string');
+        assert.ok(Array.isArray(config.languages));
     });
 
     test('config has expected default values', () => {
@@ -34,12 +35,28 @@ suite('ConfigManager Test Suite', () => {
         assert.strictEqual(config.openPreviewToSide, true);
         assert.strictEqual(config.autoClosePreview, true);
         assert.strictEqual(config.openOnGitDiff, false);
+        assert.strictEqual(config.diffPreviewMode, 'single');
         assert.strictEqual(config.previewOnlyMode, false);
         assert.strictEqual(config.preserveFocus, true);
+        assert.strictEqual(config.previewColumn, 2);
+        assert.strictEqual(config.maxOpenPreviews, 0);
+        assert.strictEqual(config.maxFileSizeKB, 1024);
+        assert.strictEqual(config.maxLineCount, 10000);
+        assert.deepStrictEqual(config.schemes, ['file', 'vscode-remote', 'vscode-vfs']);
         // Default languages should include markdown
         assert.ok(config.languages.includes('markdown'));
     });
 
+    test('layout follows openPreviewToSide while it is not set', () => {
+        const config = configManager.config;
+        const inspected = vscode.workspace.getConfiguration('previewMarkdown').inspect('layout');
+        if (inspected?.globalValue !== undefined || inspected?.workspaceValue !== undefined) {
+            return;
+        }
+
+        assert.strictEqual(config.layout, config.openPreviewToSide ? 'side' : 'sameGroup');
+    });
+
     test('enabledLanguages contains markdown by default', () => {
         const languages = configManager.enabledLanguages;
 
@@ -57,6 +74,21 @@ suite('ConfigManager Test Suite', () => {
         assert.strictEqual(configManager.isLanguageEnabled(''), false);
     });
 
+    test('getConfigFor without a resource returns the window config', () => {
+        assert.strictEqual(configManager.getConfigFor(undefined), configManager.config);
+    });
+
+    test('getConfigFor outside any workspace folder returns the window config', () => {
+        const uri = vscode.Uri.file('/outside/workspace/README.md');
+        assert.deepStrictEqual(configManager.getConfigFor(uri), configManager.config);
+    });
+
+    test('isLanguageEnabled accepts a resource scope', () => {
+        const uri = vscode.Uri.file('/outside/workspace/README.md');
+        assert.strictEqual(configManager.isLanguageEnabled('markdown', uri), true);
+        assert.strictEqual(configManager.isLanguageEnabled('javascript', uri), false);
+    });
+
     test('dispose cleans up resources', () => {
         const manager = new ConfigManager();
         assert.doesNotThrow(() => {
@@ -156,3 +188,98 @@ suite('ConfigManager Toggle Tests', () => {
         assert.notStrictEqual(before, after, 'PreviewOnlyMode state should have toggled');
     });
 });
+
+suite('ConfigManager Session Override Tests', () => {
+    let configManager: ConfigManager;
+
+    setup(() => {
+        configManager = new ConfigManager();
+    });
+
+    teardown(async () => {
+        await configManager.clearOverrides();
+        configManager.dispose();
+    });
+
+    test('toggleTarget defaults to global', () => {
+        assert.strictEqual(configManager.config.toggleTarget, 'global');
+    });
+
+    test('session toggle changes the config without writing settings', async () => {
+        const stored = vscode.workspace.getConfiguration('previewMarkdown').get<boolean>('previewOnlyMode');
+        const before = configManager.config.previewOnlyMode;
+
+        const target = await configManager.togglePreviewOnlyMode('session');
+
+        assert.strictEqual(target, 'session');
+        assert.strictEqual(configManager.config.previewOnlyMode, !before);
+        assert.strictEqual(
+            vscode.workspace.getConfiguration('previewMarkdown').get<boolean>('previewOnlyMode'),
+            stored
+        );
+    });
+
+    test('session toggle fires onConfigChanged', async () => {
+        let fired = false;
+        const disposable = configManager.onConfigChanged(() => {
+            fired = true;
+        });
+
+        await configManager.toggleEnabled('session');
+        disposable.dispose();
+
+        assert.strictEqual(fired, true);
+    });
+
+    test('session overrides are listed and cleared', async () => {
+        const before = configManager.config.enabled;
+        await configManager.toggleEnabled('session');
+
+        assert.deepStrictEqual(configManager.getOverrides(), [
+            { setting: 'enabled', scope: 'session', value: !before }
+        ]);
+
+        await configManager.clearOverrides();
+
+        assert.strictEqual(configManager.config.enabled, before);
+        assert.deepStrictEqual(configManager.getOverrides(), []);
+    });
+
+    test('session layout override applies to cycleLayout', async () => {
+        const layout = await configManager.cycleLayout('session');
+
+        assert.strictEqual(configManager.config.layout, layout);
+    });
+
+    test('cycleLayout steps through every layout and back to the first', async () => {
+        const start = configManager.config.layout;
+        const visited: PreviewLayout[] = [];
+        for (let i = 0; i < PREVIEW_LAYOUTS.length; i++) {
+            visited.push(await configManager.cycleLayout('session'));
+        }
+
+        const index = PREVIEW_LAYOUTS.indexOf(start);
+        assert.deepStrictEqual(visited, [...PREVIEW_LAYOUTS.slice(index + 1), ...PREVIEW_LAYOUTS.slice(0, index + 1)]);
+        assert.strictEqual(configManager.config.layout, start);
+    });
+});
+
+suite('ConfigManager Languages Tests', () => {
+    let configManager: ConfigManager;
+
+    setup(() => {
+        configManager = new ConfigManager();
+    });
+
+    teardown(() => {
+        configManager.dispose();
+    });
+
+    test('languages default to markdown', () => {
+        assert.deepStrictEqual(configManager.config.languages, ['markdown']);
+    });
+
+    test('no invalid languages with default settings', () => {
+        assert.deepStrictEqual(configManager.getInvalidLanguages(), []);
+    });
+});
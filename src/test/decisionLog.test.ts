@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DecisionLog } from '../decisionLog';
+import { PreviewDecision } from '../types';
+
+suite('DecisionLog Test Suite', () => {
+    let decisionLog: DecisionLog;
+    const uri = vscode.Uri.file('/repo/docs/guide.md');
+
+    setup(() => {
+        decisionLog = new DecisionLog();
+    });
+
+    teardown(() => {
+        decisionLog.dispose();
+    });
+
+    test('decisions are returned most recent first', () => {
+        decisionLog.record(uri, 'open', 'skipped', 'the document is shown in a diff');
+        decisionLog.record(uri, 'open', 'opened', 'opened with markdown.showPreviewToSide');
+
+        const decisions = decisionLog.getDecisions(uri);
+        assert.deepStrictEqual(decisions.map(d => d.outcome), ['opened', 'skipped']);
+        assert.strictEqual(decisions[1].reason, 'the document is shown in a diff');
+    });
+
+    test('decisions are kept per document', () => {
+        const other = vscode.Uri.file('/repo/docs/other.md');
+        decisionLog.record(uri, 'open', 'opened', 'opened');
+        decisionLog.record(other, 'close', 'kept', 'previewMarkdown.autoClosePreview is off');
+
+        assert.strictEqual(decisionLog.getDecisions(uri).length, 1);
+        assert.strictEqual(decisionLog.getDecisions(other)[0].kind, 'close');
+        assert.deepStrictEqual(decisionLog.getDecisions(vscode.Uri.file('/repo/none.md')), []);
+    });
+
+    test('only the most recent decisions of a document are kept', () => {
+        for (let i = 0; i < 30; i++) {
+            decisionLog.record(uri, 'open', 'skipped', `attempt ${i}`);
+        }
+
+        const decisions = decisionLog.getDecisions(uri);
+        assert.strictEqual(decisions.length, 20);
+        assert.strictEqual(decisions[0].reason, 'attempt 29');
+    });
+
+    test('onDidRecord fires with the recorded decision', () => {
+        const recorded: PreviewDecision[] = [];
+        const listener = decisionLog.onDidRecord(decision => recorded.push(decision));
+
+        decisionLog.record(uri, 'close', 'closed', 'the source document was closed');
+        listener.dispose();
+
+        assert.strictEqual(recorded.length, 1);
+        assert.strictEqual(recorded[0].uri.toString(), uri.toString());
+    });
+});
@@ -29,6 +29,17 @@ suite('DiffDetector Test Suite', () => {
         assert.strictEqual(result, undefined);
     });
 
+    test('getDiffKey identifies a diff by both sides', () => {
+        const original = vscode.Uri.parse('git:/repo/README.md?%7B%22ref%22%3A%22HEAD%22%7D');
+        const modified = vscode.Uri.file('/repo/README.md');
+        const other = vscode.Uri.file('/repo/CHANGELOG.md');
+
+        const key = diffDetector.getDiffKey(new vscode.TabInputTextDiff(original, modified));
+
+        assert.strictEqual(key, diffDetector.getDiffKey(new vscode.TabInputTextDiff(original, modified)));
+        assert.notStrictEqual(key, diffDetector.getDiffKey(new vscode.TabInputTextDiff(original, other)));
+    });
+
     test('DiffDetector can be instantiated multiple times', () => {
         const detector1 = new DiffDetector();
         const detector2 = new DiffDetector();
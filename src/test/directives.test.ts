@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { parsePreviewDirective } from '../directives';
+
+suite('Preview Directive Test Suite', () => {
+    test('front matter key is read', () => {
+        const text = ['---', 'title: Onboarding', 'preview: reader', '---', '# Welcome'].join('\n');
+        assert.strictEqual(parsePreviewDirective(text, 'markdown'), 'reader');
+    });
+
+    test('front matter values may be quoted and commented', () => {
+        const text = ['---', 'preview: "off" # generated file', '---'].join('\n');
+        assert.strictEqual(parsePreviewDirective(text, 'markdown'), 'off');
+    });
+
+    test('preview keys after the front matter are ignored', () => {
+        const text = ['---', 'title: Guide', '---', 'preview: off'].join('\n');
+        assert.strictEqual(parsePreviewDirective(text, 'markdown'), undefined);
+    });
+
+    test('AsciiDoc attributes and RST fields are read', () => {
+        assert.strictEqual(parsePreviewDirective('= Guide\n:preview: side\n', 'asciidoc'), 'side');
+        assert.strictEqual(parsePreviewDirective(':preview: off\n\nTitle\n=====\n', 'restructuredtext'), 'off');
+    });
+
+    test('field syntax is not a directive in markdown', () => {
+        assert.strictEqual(parsePreviewDirective(':preview: off\n', 'markdown'), undefined);
+    });
+
+    test('HTML comment directives work in any language', () => {
+        assert.strictEqual(parsePreviewDirective('# Table\n<!-- preview: off -->\n', 'markdown'), 'off');
+        assert.strictEqual(parsePreviewDirective('<!--preview:READER-->', 'mdx'), 'reader');
+    });
+
+    test('directives far down the document are ignored', () => {
+        const text = 'line\n'.repeat(100) + '<!-- preview: off -->';
+        assert.strictEqual(parsePreviewDirective(text, 'markdown'), undefined);
+    });
+
+    test('unknown values are ignored', () => {
+        assert.strictEqual(parsePreviewDirective('---\npreview: sometimes\n---', 'markdown'), undefined);
+    });
+});
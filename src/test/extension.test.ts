@@ -1,13 +1,60 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import { AutoPreviewApi } from '../api';
+
+const EXTENSION_ID = 'tp-build-dev.preview-markdown-files';
 
 suite('Extension Integration Test Suite', () => {
     vscode.window.showInformationMessage('Starting Auto Preview Markdown tests');
 
+    let api: AutoPreviewApi;
+
+    suiteSetup(async () => {
+        const extension = vscode.extensions.getExtension<AutoPreviewApi>(EXTENSION_ID);
+        assert.ok(extension, `${EXTENSION_ID} should be loaded in the test host`);
+        api = await extension.activate();
+    });
+
     test('Extension should be present', () => {
-        const extension = vscode.extensions.getExtension('tp-build-dev.preview-markdown-files');
-        // Extension may not be found in test environment, but the lookup shouldn't throw
-        assert.ok(true);
+        const extension = vscode.extensions.getExtension(EXTENSION_ID);
+        assert.ok(extension, `${EXTENSION_ID} should be loaded in the test host`);
+        assert.ok(extension.isActive);
+    });
+
+    test('Activation returns a versioned API', () => {
+        assert.strictEqual(api.version, 1);
+        assert.strictEqual(vscode.extensions.getExtension(EXTENSION_ID)?.exports, api);
+
+        const methods = ['openPreview', 'closePreview', 'isPreviewOpen', 'setSuppressed', 'registerPreviewProvider'] as const;
+        for (const method of methods) {
+            assert.strictEqual(typeof api[method], 'function', `${method} should be a function`);
+        }
+    });
+
+    test('API events can be subscribed to', () => {
+        const subscriptions = [
+            api.onDidOpenPreview(() => undefined),
+            api.onDidClosePreview(() => undefined)
+        ];
+
+        for (const subscription of subscriptions) {
+            assert.strictEqual(typeof subscription.dispose, 'function');
+            subscription.dispose();
+        }
+    });
+
+    test('API providers are validated and can be unregistered', () => {
+        const registration = api.registerPreviewProvider({
+            languageId: 'api-test-language',
+            extensions: ['.apitest'],
+            commands: { toSide: 'markdown.showPreviewToSide', sameGroup: 'markdown.showPreview' },
+            viewType: 'markdown.preview'
+        });
+
+        assert.strictEqual(typeof registration.dispose, 'function');
+        registration.dispose();
+
+        assert.throws(() => api.registerPreviewProvider({ languageId: 'incomplete' } as never));
     });
 
     test('Commands should be registered', async () => {
@@ -22,6 +69,22 @@ suite('Extension Integration Test Suite', () => {
         assert.ok(Array.isArray(commands));
     });
 
+    test('Status bar menu commands should be registered', async () => {
+        const commands = await vscode.commands.getCommands(true);
+        const menuCommands = [
+            'previewMarkdown.showMenu',
+            'previewMarkdown.openPreview',
+            'previewMarkdown.closePreview',
+            'previewMarkdown.toggleOpenPreviewToSide',
+            'previewMarkdown.cycleLayout',
+            'previewMarkdown.clearOverrides'
+        ];
+
+        for (const command of menuCommands) {
+            assert.ok(commands.includes(command), `${command} should be registered`);
+        }
+    });
+
     test('Toggle enabled command can be executed', async () => {
         // Get initial state
         const config = vscode.workspace.getConfiguration('previewMarkdown');
@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+
+/** viewType of the built-in markdown preview as reported by the Tab API */
+export const MARKDOWN_PREVIEW_VIEW_TYPE = 'mainThreadWebview-markdown.preview';
+
+/**
+ * Minimal stand-in for a tab group
+ */
+export function fakeGroup(viewColumn: vscode.ViewColumn): vscode.TabGroup {
+    return { viewColumn, isActive: false, activeTab: undefined, tabs: [] };
+}
+
+/**
+ * Minimal stand-in for a webview tab; a markdown preview in the active
+ * group unless told otherwise. It is not part of the group's tabs.
+ */
+export function fakeTab(
+    label: string,
+    viewType = MARKDOWN_PREVIEW_VIEW_TYPE,
+    group: vscode.TabGroup = vscode.window.tabGroups.activeTabGroup,
+    isActive = false
+): vscode.Tab {
+    return {
+        label,
+        input: new vscode.TabInputWebview(viewType),
+        isActive,
+        isDirty: false,
+        isPinned: false,
+        isPreview: false,
+        group
+    };
+}
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import { renderFallbackHtml } from '../fallbackRenderer';
+
+suite('Fallback Renderer AsciiDoc Tests', () => {
+    test('renders section titles with anchors', () => {
+        const html = renderFallbackHtml('= Guide\n\n== Getting Started\n', 'asciidoc');
+
+        assert.ok(html.includes('<h1 id="guide">Guide</h1>'));
+        assert.ok(html.includes('<h2 id="getting-started">Getting Started</h2>'));
+    });
+
+    test('renders lists', () => {
+        const html = renderFallbackHtml('* one\n* two\n\n. first\n. second', 'asciidoc');
+
+        assert.ok(html.includes('<ul>\n<li>one</li>\n<li>two</li>\n</ul>'));
+        assert.ok(html.includes('<ol>\n<li>first</li>\n<li>second</li>\n</ol>'));
+    });
+
+    test('renders source blocks escaped, with their language', () => {
+        const html = renderFallbackHtml('[source,ts]\n----\nconst a = 1 < 2;\n----', 'asciidoc');
+
+        assert.ok(html.includes('<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>'));
+    });
+
+    test('renders links and inline markup', () => {
+        const html = renderFallbackHtml('See https://example.com[the site] and *bold* `code`.', 'asciidoc');
+
+        assert.ok(html.includes('<a href="https://example.com">the site</a>'));
+        assert.ok(html.includes('<strong>bold</strong>'));
+        assert.ok(html.includes('<code>code</code>'));
+    });
+
+    test('renders tables with a header row', () => {
+        const html = renderFallbackHtml('|===\n| Name | Value\n\n| a | 1\n| b | 2\n|===', 'asciidoc');
+
+        assert.ok(html.includes('<thead><tr><th>Name</th><th>Value</th></tr></thead>'));
+        assert.ok(html.includes('<tr><td>a</td><td>1</td></tr>'));
+        assert.ok(html.includes('<tr><td>b</td><td>2</td></tr>'));
+    });
+
+    test('skips attribute entries and comments', () => {
+        const html = renderFallbackHtml(':preview: off\n// a comment\nText', 'asciidoc');
+
+        assert.strictEqual(html, '<p>Text</p>');
+    });
+
+    test('escapes HTML in text', () => {
+        const html = renderFallbackHtml('<script>alert(1)</script>', 'asciidoc');
+
+        assert.ok(!html.includes('<script>'));
+        assert.ok(html.includes('&lt;script&gt;'));
+    });
+});
+
+suite('Fallback Renderer reStructuredText Tests', () => {
+    test('assigns heading levels in order of adornment styles', () => {
+        const html = renderFallbackHtml('=====\nTitle\n=====\n\nSection\n-------\n\nSub\n~~~\n\nOther\n-------', 'restructuredtext');
+
+        assert.ok(html.includes('<h1 id="title">Title</h1>'));
+        assert.ok(html.includes('<h2 id="section">Section</h2>'));
+        assert.ok(html.includes('<h3 id="sub">Sub</h3>'));
+        assert.ok(html.includes('<h2 id="other">Other</h2>'));
+    });
+
+    test('renders bullet and enumerated lists', () => {
+        const html = renderFallbackHtml('- one\n- two\n\n1. first\n2. second', 'restructuredtext');
+
+        assert.ok(html.includes('<ul>\n<li>one</li>\n<li>two</li>\n</ul>'));
+        assert.ok(html.includes('<ol>\n<li>first</li>\n<li>second</li>\n</ol>'));
+    });
+
+    test('renders literal blocks after "::"', () => {
+        const html = renderFallbackHtml('Example::\n\n    x = 1\n    y = 2\n\nAfter', 'restructuredtext');
+
+        assert.ok(html.includes('<p>Example:</p>'));
+        assert.ok(html.includes('<pre><code>x = 1\ny = 2</code></pre>'));
+        assert.ok(html.includes('<p>After</p>'));
+    });
+
+    test('renders code-block directives', () => {
+        const html = renderFallbackHtml('.. code-block:: python\n\n   print("hi")\n', 'restructuredtext');
+
+        assert.ok(html.includes('<pre><code class="language-python">print(&quot;hi&quot;)</code></pre>'));
+    });
+
+    test('renders links and inline markup', () => {
+        const html = renderFallbackHtml('Read `the docs <https://example.com>`_, **now** with ``code``.', 'restructuredtext');
+
+        assert.ok(html.includes('<a href="https://example.com">the docs</a>'));
+        assert.ok(html.includes('<strong>now</strong>'));
+        assert.ok(html.includes('<code>code</code>'));
+    });
+
+    test('renders grid tables', () => {
+        const table = [
+            '+------+-------+',
+            '| Name | Value |',
+            '+======+=======+',
+            '| a    | 1     |',
+            '+------+-------+'
+        ].join('\n');
+        const html = renderFallbackHtml(table, 'restructuredtext');
+
+        assert.ok(html.includes('<thead><tr><th>Name</th><th>Value</th></tr></thead>'));
+        assert.ok(html.includes('<tr><td>a</td><td>1</td></tr>'));
+    });
+
+    test('renders simple tables', () => {
+        const table = [
+            '=====  =====',
+            'Name   Value',
+            '=====  =====',
+            'a      1',
+            'b      2',
+            '=====  ====='
+        ].join('\n');
+        const html = renderFallbackHtml(table, 'restructuredtext');
+
+        assert.ok(html.includes('<thead><tr><th>Name</th><th>Value</th></tr></thead>'));
+        assert.ok(html.includes('<tr><td>b</td><td>2</td></tr>'));
+    });
+
+    test('skips comments and directives without output', () => {
+        const html = renderFallbackHtml('.. note to self\n   still a comment\n\nText', 'restructuredtext');
+
+        assert.strictEqual(html, '<p>Text</p>');
+    });
+});
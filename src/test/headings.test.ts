@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { createSlugger, DocumentHeading, headingSlug, parseHeadings } from '../headings';
+
+/** Headings as "level:text" strings, depth first */
+function flatten(headings: DocumentHeading[]): string[] {
+    return headings.flatMap(heading => [`${heading.level}:${heading.text}`, ...flatten(heading.children)]);
+}
+
+suite('Heading Parser Tests', () => {
+    test('finds markdown ATX and setext headings', () => {
+        const text = '# Title\n\nIntro\n\nSetext\n------\n\n### Deep ###\n';
+
+        assert.deepStrictEqual(flatten(parseHeadings(text, 'markdown')), ['1:Title', '2:Setext', '3:Deep']);
+    });
+
+    test('ignores markdown front matter and fenced code', () => {
+        const text = '---\ntitle: x\n---\n# Real\n\n```sh\n# not a heading\n```\n';
+
+        assert.deepStrictEqual(flatten(parseHeadings(text, 'markdown')), ['1:Real']);
+    });
+
+    test('nests headings by level', () => {
+        const headings = parseHeadings('# A\n## B\n### C\n## D\n# E', 'markdown');
+
+        assert.deepStrictEqual(headings.map(h => h.text), ['A', 'E']);
+        assert.deepStrictEqual(headings[0].children.map(h => h.text), ['B', 'D']);
+        assert.deepStrictEqual(headings[0].children[0].children.map(h => h.text), ['C']);
+    });
+
+    test('records zero-based source lines', () => {
+        const headings = parseHeadings('intro\n\n## Section', 'markdown');
+
+        assert.strictEqual(headings[0].line, 2);
+    });
+
+    test('finds asciidoc section titles outside listing blocks', () => {
+        const text = '= Guide\n\n== Install\n\n----\n== not a title\n----\n\n=== Linux\n';
+
+        assert.deepStrictEqual(flatten(parseHeadings(text, 'asciidoc')), ['1:Guide', '2:Install', '3:Linux']);
+    });
+
+    test('finds reStructuredText titles by adornment style', () => {
+        const text = '=====\nTitle\n=====\n\nIntro\n\nSection\n-------\n\nSub\n~~~\n';
+
+        assert.deepStrictEqual(flatten(parseHeadings(text, 'restructuredtext')), ['1:Title', '2:Section', '3:Sub']);
+    });
+
+    test('strips inline markup from heading text', () => {
+        const headings = parseHeadings('# The `api` and [docs](https://example.com) of snake_case_name', 'markdown');
+
+        assert.strictEqual(headings[0].text, 'The api and docs of snake_case_name');
+    });
+
+    test('numbers repeated heading slugs', () => {
+        const headings = parseHeadings('## Usage\n## Usage\n## Usage', 'markdown');
+
+        assert.deepStrictEqual(headings.map(h => h.slug), ['usage', 'usage-1', 'usage-2']);
+    });
+});
+
+suite('Heading Slug Tests', () => {
+    test('headingSlug lowercases and joins words', () => {
+        assert.strictEqual(headingSlug('Getting Started!'), 'getting-started');
+        assert.strictEqual(headingSlug('  API  Reference '), 'api-reference');
+    });
+
+    test('createSlugger ignores inline markup', () => {
+        const slug = createSlugger();
+
+        assert.strictEqual(slug('*Getting* `Started`'), 'getting-started');
+    });
+});
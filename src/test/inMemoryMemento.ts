@@ -0,0 +1,21 @@
+import * as vscode from 'vscode';
+
+/**
+ * In-memory stand-in for ExtensionContext.workspaceState / globalState
+ */
+export class InMemoryMemento implements vscode.Memento {
+    private _values = new Map<string, unknown>();
+
+    keys(): readonly string[] {
+        return Array.from(this._values.keys());
+    }
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this._values.has(key) ? this._values.get(key) as T : defaultValue;
+    }
+
+    update(key: string, value: unknown): Thenable<void> {
+        this._values.set(key, value);
+        return Promise.resolve();
+    }
+}
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { Logger, formatMessage, logger } from '../logger';
+
+suite('Logger Test Suite', () => {
+    teardown(() => {
+        logger.setLevel('info');
+        logger.setEnabled(true);
+    });
+
+    test('messages are filtered by the configured level', () => {
+        logger.setLevel('warn');
+
+        assert.strictEqual(logger.isLevelEnabled('error'), true);
+        assert.strictEqual(logger.isLevelEnabled('warn'), true);
+        assert.strictEqual(logger.isLevelEnabled('info'), false);
+        assert.strictEqual(logger.isLevelEnabled('debug'), false);
+    });
+
+    test('level off silences everything, including errors', () => {
+        logger.setLevel('off');
+
+        assert.strictEqual(logger.isLevelEnabled('error'), false);
+    });
+
+    test('setEnabled(false) overrides the configured level', () => {
+        logger.setLevel('trace');
+        logger.setEnabled(false);
+        assert.strictEqual(logger.isLevelEnabled('error'), false);
+
+        logger.setEnabled(true);
+        assert.strictEqual(logger.isLevelEnabled('trace'), true);
+    });
+
+    test('unknown levels fall back to info', () => {
+        logger.setLevel('verbose' as never);
+
+        assert.strictEqual(logger.level, 'info');
+    });
+
+    test('debug messages are written when the channel is at its default info level', () => {
+        const channel = new FakeLogChannel(vscode.LogLevel.Info);
+        const debugLogger = new Logger(() => channel.asChannel());
+        debugLogger.setLevel('debug');
+
+        debugLogger.debug('Skipping preview', { language: 'markdown' });
+        debugLogger.trace('Tracking preview');
+
+        assert.deepStrictEqual(channel.lines, ['info: [debug] Skipping preview language=markdown']);
+    });
+
+    test('debug messages keep their level when the channel shows it', () => {
+        const channel = new FakeLogChannel(vscode.LogLevel.Trace);
+        const traceLogger = new Logger(() => channel.asChannel());
+        traceLogger.setLevel('trace');
+
+        traceLogger.debug('Skipping preview');
+        traceLogger.trace('Tracking preview');
+
+        assert.deepStrictEqual(channel.lines, ['debug: Skipping preview', 'trace: Tracking preview']);
+    });
+
+    test('formatMessage appends structured fields', () => {
+        const uri = vscode.Uri.file('/repo/docs/guide.md');
+        const formatted = formatMessage('Skipping preview', { uri, language: 'markdown', decision: 'skip: shown in a diff' });
+
+        assert.strictEqual(
+            formatted,
+            `Skipping preview uri=${uri.fsPath} language=markdown decision=skip: shown in a diff`
+        );
+    });
+
+    test('formatMessage leaves messages without fields unchanged', () => {
+        assert.strictEqual(formatMessage('Extension activated successfully'), 'Extension activated successfully');
+    });
+});
+
+/**
+ * Records the lines written to a log output channel
+ */
+class FakeLogChannel {
+    readonly lines: string[] = [];
+
+    constructor(readonly logLevel: vscode.LogLevel) { }
+
+    asChannel(): vscode.LogOutputChannel {
+        const write = (level: string) => (message: string) => this.lines.push(`${level}: ${message}`);
+        return {
+            logLevel: this.logLevel,
+            info: write('info'),
+            debug: write('debug'),
+            trace: write('trace'),
+            warn: write('warn'),
+            error: write('error')
+        } as unknown as vscode.LogOutputChannel;
+    }
+}
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { PathRuleMatcher, globToRegExp } from '../pathRules';
+
+suite('PathRuleMatcher Test Suite', () => {
+    let matcher: PathRuleMatcher;
+
+    setup(() => {
+        matcher = new PathRuleMatcher();
+    });
+
+    test('globToRegExp handles common patterns', () => {
+        const testCases = [
+            { glob: 'CHANGELOG.md', path: 'CHANGELOG.md', expected: true },
+            { glob: 'CHANGELOG.md', path: 'docs/CHANGELOG.md', expected: false },
+            { glob: '**/CHANGELOG.md', path: 'CHANGELOG.md', expected: true },
+            { glob: '**/CHANGELOG.md', path: 'packages/a/CHANGELOG.md', expected: true },
+            { glob: '**/node_modules/**', path: 'node_modules/pkg/README.md', expected: true },
+            { glob: '**/node_modules/**', path: 'src/node_modules/pkg/README.md', expected: true },
+            { glob: 'docs/*.md', path: 'docs/guide.md', expected: true },
+            { glob: 'docs/*.md', path: 'docs/api/guide.md', expected: false },
+            { glob: 'docs/**', path: 'docs/api/guide.md', expected: true },
+            { glob: '*.{md,adoc}', path: 'guide.adoc', expected: true },
+            { glob: '*.{md,adoc}', path: 'guide.rst', expected: false },
+            { glob: 'file?.md', path: 'file1.md', expected: true },
+            { glob: 'file[0-9].md', path: 'file7.md', expected: true },
+            { glob: 'file[!0-9].md', path: 'file7.md', expected: false },
+        ];
+
+        for (const tc of testCases) {
+            assert.strictEqual(
+                globToRegExp(tc.glob).test(tc.path),
+                tc.expected,
+                `${tc.glob} vs ${tc.path}`
+            );
+        }
+    });
+
+    test('globToRegExp escapes regex characters', () => {
+        assert.strictEqual(globToRegExp('a+b.md').test('a+b.md'), true);
+        assert.strictEqual(globToRegExp('a+b.md').test('aab.md'), false);
+        assert.strictEqual(globToRegExp('(draft).md').test('(draft).md'), true);
+    });
+
+    test('resolvePath previews everything when no rules are set', () => {
+        assert.strictEqual(matcher.resolvePath('README.md', [], []), 'preview');
+    });
+
+    test('resolvePath skips excluded files', () => {
+        const exclude = ['**/node_modules/**', 'CHANGELOG.md'];
+
+        assert.strictEqual(matcher.resolvePath('node_modules/x/README.md', [], exclude), 'skip');
+        assert.strictEqual(matcher.resolvePath('CHANGELOG.md', [], exclude), 'skip');
+        assert.strictEqual(matcher.resolvePath('README.md', [], exclude), 'preview');
+    });
+
+    test('resolvePath skips files not matching a non-empty include list', () => {
+        const include = ['docs/**'];
+
+        assert.strictEqual(matcher.resolvePath('docs/guide.md', include, []), 'preview');
+        assert.strictEqual(matcher.resolvePath('README.md', include, []), 'skip');
+    });
+
+    test('resolvePath applies rule actions', () => {
+        const include = [
+            { pattern: 'onboarding/**', action: 'reader' as const },
+            'docs/**'
+        ];
+
+        assert.strictEqual(matcher.resolvePath('onboarding/intro.md', include, []), 'reader');
+        assert.strictEqual(matcher.resolvePath('docs/intro.md', include, []), 'preview');
+    });
+
+    test('exclude rules take precedence over include rules', () => {
+        const include = ['docs/**'];
+        const exclude = [{ pattern: 'docs/generated/**' }];
+
+        assert.strictEqual(matcher.resolvePath('docs/generated/api.md', include, exclude), 'skip');
+    });
+
+    test('exclude rules can override the action', () => {
+        const exclude = [{ pattern: 'guides/**', action: 'reader' as const }];
+
+        assert.strictEqual(matcher.resolvePath('guides/setup.md', [], exclude), 'reader');
+    });
+
+    test('globToRegExp throws on malformed patterns', () => {
+        assert.throws(() => globToRegExp('docs/{a,b'));
+        assert.throws(() => globToRegExp('[z-a].md'));
+    });
+
+    test('malformed patterns match nothing instead of throwing', () => {
+        assert.strictEqual(matcher.matches('docs/a', 'docs/{a,b'), false);
+        assert.strictEqual(matcher.matches('z.md', '[z-a].md'), false);
+    });
+
+    test('malformed rules are ignored and the remaining rules still apply', () => {
+        const exclude = ['[z-a].md', 'drafts/**'];
+
+        assert.strictEqual(matcher.resolvePath('drafts/idea.md', [], exclude), 'skip');
+        assert.strictEqual(matcher.resolvePath('guide.md', [], exclude), 'preview');
+    });
+
+    test('an include list of only malformed rules does not skip every file', () => {
+        assert.strictEqual(matcher.resolvePath('guide.md', ['docs/{a,b'], []), 'preview');
+        assert.strictEqual(matcher.resolvePath('guide.md', ['docs/{a,b', 'docs/**'], []), 'skip');
+    });
+});
@@ -0,0 +1,525 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import {
+    DiffViews,
+    EditorHost,
+    FallbackPreviews,
+    PreviewManager,
+    PreviewSettings,
+    PreviewTabs,
+    ProviderAvailability,
+    RedlineViews
+} from '../previewManager';
+import { OpenAndTrackOptions } from '../tabTracker';
+import { ReaderHistory } from '../readerHistory';
+import { DecisionLog } from '../decisionLog';
+import { ProviderRegistry } from '../providerRegistry';
+import { ExtensionConfig, PreviewProvider, TrackedPreview } from '../types';
+import { uriBasename } from '../uriUtils';
+import { InMemoryMemento } from './inMemoryMemento';
+import { fakeTab } from './fakeTabs';
+import { testConfig } from './testConfig';
+
+/**
+ * The same settings for every document
+ */
+class FakeSettings implements PreviewSettings {
+    readonly providers = new ProviderRegistry();
+
+    constructor(private readonly config: ExtensionConfig) {}
+
+    getConfigFor(): ExtensionConfig {
+        return this.config;
+    }
+
+    isLanguageEnabled(languageId: string): boolean {
+        return this.config.languages.includes(languageId);
+    }
+}
+
+/**
+ * Stand-in for TabTracker that "opens" previews without running commands,
+ * recording the group each one would have opened in
+ */
+class FakeTabTracker implements PreviewTabs {
+    readonly opened: string[] = [];
+    readonly openedIn: vscode.ViewColumn[] = [];
+    private _previews = new Map<string, TrackedPreview>();
+    private _clock = 0;
+
+    get trackedPreviews(): TrackedPreview[] {
+        return Array.from(this._previews.values());
+    }
+
+    getTrackedPreview(uri: vscode.Uri): TrackedPreview | undefined {
+        return this._previews.get(uri.toString());
+    }
+
+    findByTab(tab: vscode.Tab): TrackedPreview | undefined {
+        return this.trackedPreviews.find(preview => preview.tab === tab);
+    }
+
+    isPreviewOpen(uri: vscode.Uri): boolean {
+        return this._previews.has(uri.toString());
+    }
+
+    isSupported(): boolean {
+        return true;
+    }
+
+    getPreviewTabs(): vscode.Tab[] {
+        return this.trackedPreviews.map(preview => preview.tab);
+    }
+
+    async openAndTrack(
+        uri: vscode.Uri,
+        languageId: string,
+        _open: () => Thenable<unknown>,
+        options: OpenAndTrackOptions = {}
+    ): Promise<TrackedPreview> {
+        this.opened.push(uri.toString());
+        this.openedIn.push(vscode.window.tabGroups.activeTabGroup.viewColumn);
+        const preview: TrackedPreview = {
+            sourceUri: uri,
+            languageId,
+            openedAt: ++this._clock,
+            mode: options.mode ?? 'preview',
+            manual: options.manual,
+            tab: fakeTab(`Preview ${uriBasename(uri)}`, options.viewType)
+        };
+        this._previews.set(uri.toString(), preview);
+        return preview;
+    }
+
+    untrack(uri: vscode.Uri): void {
+        this._previews.delete(uri.toString());
+    }
+
+    async closePreviewForFile(uri: vscode.Uri): Promise<boolean> {
+        return this._previews.delete(uri.toString());
+    }
+
+    cleanupDebounceMap(): void {
+        // Nothing to clean up
+    }
+}
+
+/**
+ * Diff state set by the tests: whether a diff editor is active, and which documents are in a diff
+ */
+class FakeDiffs implements DiffViews {
+    diffActive = false;
+    readonly inDiff = new Set<string>();
+
+    isDiffEditor(): boolean {
+        return this.diffActive;
+    }
+
+    isDocumentInDiffView(uri: vscode.Uri): boolean {
+        return this.inDiff.has(uri.toString());
+    }
+
+    findDiffTab(): vscode.Tab | undefined {
+        return undefined;
+    }
+
+    getDiffKey(diff: vscode.TabInputTextDiff): string {
+        return `${diff.original.toString()}|${diff.modified.toString()}`;
+    }
+}
+
+/**
+ * Records the redline views that were shown
+ */
+class FakeRedlines implements RedlineViews {
+    readonly shown: vscode.TabInputTextDiff[] = [];
+
+    async show(diff: vscode.TabInputTextDiff): Promise<void> {
+        this.shown.push(diff);
+    }
+
+    isOpen(diff: vscode.TabInputTextDiff): boolean {
+        return this.shown.includes(diff);
+    }
+
+    close(): void {
+        // Nothing to close
+    }
+}
+
+/**
+ * Every provider counts as installed
+ */
+class FakeCapabilities implements ProviderAvailability {
+    isAvailable(): boolean {
+        return true;
+    }
+
+    async refresh(): Promise<void> {
+        // Nothing to detect
+    }
+
+    reportMissing(): void {
+        // Nothing is missing
+    }
+}
+
+/**
+ * Fallback preview that renders nothing and counts how often it was closed
+ */
+class FakeFallback implements FallbackPreviews {
+    closed = 0;
+
+    supports(): boolean {
+        return false;
+    }
+
+    getProvider(provider: PreviewProvider): PreviewProvider {
+        return provider;
+    }
+
+    scrollTo(): boolean {
+        return false;
+    }
+
+    isPreviewTab(): boolean {
+        return false;
+    }
+
+    closeAll(): void {
+        this.closed++;
+    }
+}
+
+/**
+ * Editor events fired by the tests instead of the window; prompts are
+ * recorded and answered with a preset choice
+ */
+class FakeEditorHost implements EditorHost, vscode.Disposable {
+    readonly open = new vscode.EventEmitter<vscode.TextDocument>();
+    readonly save = new vscode.EventEmitter<vscode.TextDocument>();
+    readonly close = new vscode.EventEmitter<vscode.TextDocument>();
+    readonly activeEditor = new vscode.EventEmitter<vscode.TextEditor | undefined>();
+    readonly tabs = new vscode.EventEmitter<vscode.TabChangeEvent>();
+    readonly tabGroups = new vscode.EventEmitter<vscode.TabGroupChangeEvent>();
+
+    readonly onDidOpenTextDocument = this.open.event;
+    readonly onDidSaveTextDocument = this.save.event;
+    readonly onDidCloseTextDocument = this.close.event;
+    readonly onDidChangeActiveTextEditor = this.activeEditor.event;
+    readonly onDidChangeTabs = this.tabs.event;
+    readonly onDidChangeTabGroups = this.tabGroups.event;
+
+    readonly prompts: string[] = [];
+    promptChoice: string | undefined;
+
+    /** Opening a document fires its open event before it resolves, like VS Code does */
+    async openTextDocument(uri: vscode.Uri): Promise<vscode.TextDocument> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        this.open.fire(document);
+        return document;
+    }
+
+    async showInformationMessage(message: string): Promise<string | undefined> {
+        this.prompts.push(message);
+        return this.promptChoice;
+    }
+
+    dispose(): void {
+        [this.open, this.save, this.close, this.activeEditor, this.tabs, this.tabGroups].forEach(emitter => emitter.dispose());
+    }
+}
+
+/**
+ * Active diff tab, as VS Code reports it when a diff is opened
+ */
+function fakeDiffTab(original: vscode.Uri, modified: vscode.Uri): vscode.Tab {
+    return {
+        label: `${uriBasename(modified)} (Working Tree)`,
+        input: new vscode.TabInputTextDiff(original, modified),
+        isActive: true,
+        isDirty: false,
+        isPinned: false,
+        isPreview: false,
+        group: vscode.window.tabGroups.activeTabGroup
+    };
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Wait for debounced and unawaited handlers to get somewhere */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > timeoutMs) {
+            throw new Error('Timed out waiting for the preview manager');
+        }
+        await delay(10);
+    }
+}
+
+suite('PreviewManager Test Suite', () => {
+    let tabTracker: FakeTabTracker;
+    let diffs: FakeDiffs;
+    let redlines: FakeRedlines;
+    let fallback: FakeFallback;
+    let decisionLog: DecisionLog;
+    let host: FakeEditorHost;
+    let previewManager: PreviewManager | undefined;
+
+    function createManager(overrides: Partial<ExtensionConfig> = {}): PreviewManager {
+        previewManager = new PreviewManager(
+            new FakeSettings(testConfig(overrides)),
+            diffs,
+            tabTracker,
+            new ReaderHistory(new InMemoryMemento()),
+            redlines,
+            decisionLog,
+            new FakeCapabilities(),
+            fallback,
+            host
+        );
+        return previewManager;
+    }
+
+    /** Open a markdown document and make its editor the active one */
+    async function activate(document: vscode.TextDocument, viewColumn?: vscode.ViewColumn): Promise<void> {
+        host.activeEditor.fire(await vscode.window.showTextDocument(document, viewColumn));
+    }
+
+    function openMarkdown(content = '# Title'): Thenable<vscode.TextDocument> {
+        return vscode.workspace.openTextDocument({ language: 'markdown', content });
+    }
+
+    setup(() => {
+        tabTracker = new FakeTabTracker();
+        diffs = new FakeDiffs();
+        redlines = new FakeRedlines();
+        fallback = new FakeFallback();
+        decisionLog = new DecisionLog();
+        host = new FakeEditorHost();
+        previewManager = undefined;
+    });
+
+    teardown(async () => {
+        previewManager?.dispose();
+        decisionLog.dispose();
+        host.dispose();
+        // Undo the groups the layout tests create
+        await vscode.commands.executeCommand('workbench.action.joinAllGroups');
+    });
+
+    test('opening past maxOpenPreviews evicts the least recently viewed preview', async () => {
+        createManager({ maxOpenPreviews: 1 });
+        const first = await openMarkdown();
+        const second = await openMarkdown();
+
+        await activate(first);
+        await waitFor(() => tabTracker.isPreviewOpen(first.uri));
+        await activate(second);
+        await waitFor(() => tabTracker.isPreviewOpen(second.uri));
+
+        assert.ok(!tabTracker.isPreviewOpen(first.uri));
+    });
+
+    test('an evicted document reopens its preview when its editor is activated again', async () => {
+        createManager({ maxOpenPreviews: 1 });
+        const first = await openMarkdown();
+        const second = await openMarkdown();
+        await activate(first);
+        await waitFor(() => tabTracker.isPreviewOpen(first.uri));
+        await activate(second);
+        await waitFor(() => tabTracker.isPreviewOpen(second.uri));
+
+        await activate(first);
+        await waitFor(() => tabTracker.isPreviewOpen(first.uri));
+
+        assert.deepStrictEqual(tabTracker.opened, [first.uri, second.uri, first.uri].map(uri => uri.toString()));
+        assert.ok(!tabTracker.isPreviewOpen(second.uri));
+    });
+
+    test('a diff with a git: original opens its redline view when the modified side is already previewed', async () => {
+        createManager({ openOnGitDiff: true, diffPreviewMode: 'redline' });
+        const modified = vscode.Uri.file('/docs/guide.md');
+        await tabTracker.openAndTrack(modified, 'markdown', async () => undefined);
+
+        const diffTab = fakeDiffTab(modified.with({ scheme: 'git', query: 'HEAD' }), modified);
+        host.tabs.fire({ opened: [diffTab], closed: [], changed: [] });
+        await waitFor(() => redlines.shown.length > 0);
+
+        assert.deepStrictEqual(redlines.shown, [diffTab.input]);
+    });
+
+    test('preview-only mode closes fallback previews before opening the next one', async () => {
+        createManager({ previewOnlyMode: true });
+        const document = await openMarkdown();
+
+        host.open.fire(document);
+        await waitFor(() => tabTracker.isPreviewOpen(document.uri));
+
+        assert.strictEqual(fallback.closed, 1);
+    });
+
+    test('previews of providers that ignore URI fragments are not scrolled', async () => {
+        const manager = createManager();
+        const uri = vscode.Uri.file('/docs/guide.adoc');
+        await tabTracker.openAndTrack(uri, 'asciidoc', async () => undefined, { viewType: 'asciidoc.preview' });
+
+        assert.strictEqual(await manager.scrollPreviewTo(uri, 'setup'), false);
+    });
+
+    test('follow mode switches the single preview to the activated document', async () => {
+        createManager({ followActiveEditor: true });
+        const first = await openMarkdown();
+        const second = await openMarkdown();
+
+        await activate(first);
+        await waitFor(() => tabTracker.isPreviewOpen(first.uri));
+        await activate(second);
+        await waitFor(() => tabTracker.isPreviewOpen(second.uri));
+
+        assert.deepStrictEqual(tabTracker.trackedPreviews.map(preview => [preview.sourceUri.toString(), preview.mode]), [
+            [second.uri.toString(), 'follow']
+        ]);
+    });
+
+    test('follow mode keeps its preview when a document in a diff is activated and openOnGitDiff is off', async () => {
+        createManager({ followActiveEditor: true });
+        const first = await openMarkdown();
+        const second = await openMarkdown();
+        await activate(first);
+        await waitFor(() => tabTracker.isPreviewOpen(first.uri));
+
+        diffs.diffActive = true;
+        diffs.inDiff.add(second.uri.toString());
+        await activate(second);
+        await waitFor(() => decisionLog.getDecisions(second.uri).length > 0);
+
+        assert.deepStrictEqual(tabTracker.opened, [first.uri.toString()]);
+        assert.ok(tabTracker.isPreviewOpen(first.uri));
+        assert.strictEqual(decisionLog.getDecisions(second.uri)[0].outcome, 'skipped');
+    });
+
+    test('follow mode follows into a diff when openOnGitDiff is on', async () => {
+        createManager({ followActiveEditor: true, openOnGitDiff: true });
+        const first = await openMarkdown();
+        const second = await openMarkdown();
+        await activate(first);
+        await waitFor(() => tabTracker.isPreviewOpen(first.uri));
+
+        diffs.diffActive = true;
+        diffs.inDiff.add(second.uri.toString());
+        await activate(second);
+        await waitFor(() => tabTracker.isPreviewOpen(second.uri));
+
+        assert.ok(!tabTracker.isPreviewOpen(first.uri));
+    });
+
+    test('documents over maxLineCount are not previewed until the user agrees', async () => {
+        createManager({ maxLineCount: 3 });
+        const document = await openMarkdown('# Title\n\none\ntwo\nthree');
+
+        host.open.fire(document);
+        await waitFor(() => host.prompts.length > 0);
+        await delay(100);
+
+        assert.match(host.prompts[0], /has 5 lines/);
+        assert.deepStrictEqual(tabTracker.opened, []);
+    });
+
+    test('maxFileSizeKB counts UTF-8 bytes, not characters', async () => {
+        createManager({ maxFileSizeKB: 1 });
+        // 800 characters, 1600 bytes
+        const document = await openMarkdown('é'.repeat(800));
+
+        host.open.fire(document);
+        await waitFor(() => host.prompts.length > 0);
+
+        assert.match(host.prompts[0], /is 2 KB/);
+    });
+
+    test('"Open Preview" previews a large document and asks again next time', async () => {
+        createManager({ maxLineCount: 1 });
+        host.promptChoice = 'Open Preview';
+        const document = await openMarkdown('one\ntwo');
+
+        host.open.fire(document);
+        await waitFor(() => tabTracker.isPreviewOpen(document.uri));
+        host.close.fire(document);
+        await tabTracker.closePreviewForFile(document.uri);
+        host.open.fire(document);
+        await waitFor(() => tabTracker.opened.length === 2);
+
+        assert.strictEqual(host.prompts.length, 2);
+    });
+
+    test('"Always for This File" previews a large document without asking again', async () => {
+        createManager({ maxLineCount: 1 });
+        host.promptChoice = 'Always for This File';
+        const document = await openMarkdown('one\ntwo');
+
+        host.open.fire(document);
+        await waitFor(() => tabTracker.isPreviewOpen(document.uri));
+        host.close.fire(document);
+        await tabTracker.closePreviewForFile(document.uri);
+        host.open.fire(document);
+        await waitFor(() => tabTracker.opened.length === 2);
+
+        assert.strictEqual(host.prompts.length, 1);
+    });
+
+    test('documents the extension opens itself are not asked about', async () => {
+        const manager = createManager({ maxLineCount: 1 });
+        const document = await openMarkdown('one\ntwo');
+
+        assert.ok(await manager.openReaderPreview(document.uri));
+        await delay(100);
+
+        assert.deepStrictEqual(host.prompts, []);
+        assert.deepStrictEqual(tabTracker.opened, [document.uri.toString()]);
+    });
+
+    test('the below layout opens previews in a new group and reuses it for the same source group', async () => {
+        createManager({ layout: 'below' });
+        const groupCount = vscode.window.tabGroups.all.length;
+        const first = await openMarkdown();
+        const second = await openMarkdown();
+
+        await activate(first, vscode.ViewColumn.One);
+        await waitFor(() => tabTracker.isPreviewOpen(first.uri));
+        await activate(second, vscode.ViewColumn.One);
+        await waitFor(() => tabTracker.isPreviewOpen(second.uri));
+
+        assert.strictEqual(vscode.window.tabGroups.all.length, groupCount + 1);
+        assert.notStrictEqual(tabTracker.openedIn[0], vscode.ViewColumn.One);
+        assert.strictEqual(tabTracker.openedIn[1], tabTracker.openedIn[0]);
+    });
+
+    test('the fixedColumn layout opens previews in previewMarkdown.previewColumn', async () => {
+        createManager({ layout: 'fixedColumn', previewColumn: vscode.ViewColumn.Three });
+        const document = await openMarkdown();
+
+        await activate(document, vscode.ViewColumn.One);
+        await waitFor(() => tabTracker.isPreviewOpen(document.uri));
+
+        assert.deepStrictEqual(tabTracker.openedIn, [vscode.ViewColumn.Three]);
+    });
+
+    test('the dedicatedGroup layout opens every preview in one group, whichever group the source is in', async () => {
+        createManager({ layout: 'dedicatedGroup' });
+        const groupCount = vscode.window.tabGroups.all.length;
+        const first = await openMarkdown();
+        const second = await openMarkdown();
+
+        await activate(first, vscode.ViewColumn.One);
+        await waitFor(() => tabTracker.isPreviewOpen(first.uri));
+        await activate(second, tabTracker.openedIn[0]);
+        await waitFor(() => tabTracker.isPreviewOpen(second.uri));
+
+        assert.strictEqual(vscode.window.tabGroups.all.length, groupCount + 1);
+        assert.notStrictEqual(tabTracker.openedIn[0], vscode.ViewColumn.One);
+        assert.strictEqual(tabTracker.openedIn[1], tabTracker.openedIn[0]);
+    });
+});
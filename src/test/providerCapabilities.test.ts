@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { ConfigManager } from '../configManager';
+import { ProviderCapabilities } from '../providerCapabilities';
+
+suite('ProviderCapabilities Tests', () => {
+    let configManager: ConfigManager;
+    let capabilities: ProviderCapabilities;
+
+    setup(() => {
+        configManager = new ConfigManager();
+        capabilities = new ProviderCapabilities(configManager);
+    });
+
+    teardown(() => {
+        capabilities.dispose();
+        configManager.dispose();
+    });
+
+    test('languages are assumed available before detection', () => {
+        assert.strictEqual(capabilities.isAvailable('markdown'), true);
+        assert.strictEqual(capabilities.isAvailable('asciidoc'), true);
+    });
+
+    test('capabilities cover every provider after refresh', async () => {
+        await capabilities.refresh();
+
+        const languages = capabilities.capabilities.map(capability => capability.languageId).sort();
+        assert.deepStrictEqual(languages, [...configManager.providers.languageIds].sort());
+    });
+
+    test('provider whose commands do not exist is not available', async () => {
+        const registration = configManager.providers.register({
+            languageId: 'nopreview',
+            extensions: ['.nopreview'],
+            commands: { toSide: 'previewMarkdown.test.missingToSide', sameGroup: 'previewMarkdown.test.missing' },
+            viewType: 'nopreview.preview'
+        });
+
+        await capabilities.refresh();
+        assert.strictEqual(capabilities.isAvailable('nopreview'), false);
+
+        registration.dispose();
+    });
+
+    test('refresh fires onDidChange', async () => {
+        let fired = false;
+        const disposable = capabilities.onDidChange(() => {
+            fired = true;
+        });
+
+        await capabilities.refresh();
+        disposable.dispose();
+
+        assert.strictEqual(fired, true);
+    });
+});
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import { ProviderRegistry, matchesViewType } from '../providerRegistry';
+
+suite('ProviderRegistry Test Suite', () => {
+    let registry: ProviderRegistry;
+
+    setup(() => {
+        registry = new ProviderRegistry();
+    });
+
+    teardown(() => {
+        registry.dispose();
+    });
+
+    test('built-in providers are registered', () => {
+        assert.deepStrictEqual(
+            registry.languageIds.sort(),
+            ['asciidoc', 'markdown', 'restructuredtext']
+        );
+        assert.strictEqual(registry.get('markdown')?.commands.toSide, 'markdown.showPreviewToSide');
+    });
+
+    test('getByExtension is case-insensitive', () => {
+        assert.strictEqual(registry.getByExtension('.MD')?.languageId, 'markdown');
+        assert.strictEqual(registry.getByExtension('.adoc')?.languageId, 'asciidoc');
+        assert.strictEqual(registry.getByExtension('.txt'), undefined);
+    });
+
+    test('configured providers add new languages', () => {
+        registry.setConfiguredProviders({
+            quarto: {
+                extensions: ['qmd'],
+                commands: { toSide: 'quarto.preview' },
+                viewType: 'quarto.preview'
+            }
+        });
+
+        const provider = registry.get('quarto');
+        assert.ok(provider);
+        assert.deepStrictEqual(provider.extensions, ['.qmd']);
+        assert.strictEqual(provider.commands.sameGroup, 'quarto.preview');
+        assert.strictEqual(registry.getByExtension('.qmd')?.languageId, 'quarto');
+    });
+
+    test('configured providers override built-in fields', () => {
+        registry.setConfiguredProviders({
+            markdown: { extensions: ['.md', '.mdx'] }
+        });
+
+        assert.strictEqual(registry.getByExtension('.mdx')?.languageId, 'markdown');
+        assert.strictEqual(registry.get('markdown')?.viewType, 'markdown.preview');
+    });
+
+    test('incomplete providers are ignored', () => {
+        registry.setConfiguredProviders({
+            typst: { extensions: ['.typ'] }
+        });
+
+        assert.strictEqual(registry.has('typst'), false);
+        assert.strictEqual(registry.getByExtension('.typ'), undefined);
+    });
+
+    test('onDidChange fires only when providers change', () => {
+        let count = 0;
+        const disposable = registry.onDidChange(() => count++);
+
+        const settings = { org: { commands: { toSide: 'org.preview' }, viewType: 'org.preview' } };
+        registry.setConfiguredProviders(settings);
+        registry.setConfiguredProviders(settings);
+
+        disposable.dispose();
+        assert.strictEqual(count, 1);
+    });
+
+    test('matchesViewType accepts prefixed webview viewTypes', () => {
+        assert.strictEqual(matchesViewType('markdown.preview', 'markdown.preview'), true);
+        assert.strictEqual(matchesViewType('mainThreadWebview-markdown.preview', 'markdown.preview'), true);
+        assert.strictEqual(matchesViewType('mainThreadWebview-asciidoc.preview', 'markdown.preview'), false);
+    });
+
+    test('getByViewType finds providers for tab viewTypes', () => {
+        assert.strictEqual(
+            registry.getByViewType('mainThreadWebview-restructuredtext.preview')?.languageId,
+            'restructuredtext'
+        );
+        assert.strictEqual(registry.isPreviewViewType('mainThreadWebview-other'), false);
+    });
+
+    test('registered providers add languages until disposed', () => {
+        const registration = registry.register({
+            languageId: 'typst',
+            extensions: ['TYP'],
+            commands: { toSide: 'typst.previewToSide', sameGroup: 'typst.preview' },
+            viewType: 'typst.preview'
+        });
+
+        assert.strictEqual(registry.getByExtension('.typ')?.languageId, 'typst');
+
+        registration.dispose();
+        assert.strictEqual(registry.has('typst'), false);
+    });
+
+    test('configured providers take precedence over registered ones', () => {
+        registry.register({
+            languageId: 'quarto',
+            extensions: ['.qmd'],
+            commands: { toSide: 'other.preview', sameGroup: 'other.preview' },
+            viewType: 'other.preview'
+        });
+        registry.setConfiguredProviders({
+            quarto: { commands: { toSide: 'quarto.preview' }, viewType: 'quarto.preview' }
+        });
+
+        assert.strictEqual(registry.get('quarto')?.viewType, 'quarto.preview');
+    });
+
+    test('registering an incomplete provider throws', () => {
+        assert.throws(() => registry.register({
+            languageId: 'typst',
+            extensions: [],
+            commands: { toSide: '', sameGroup: '' },
+            viewType: 'typst.preview'
+        }));
+    });
+});
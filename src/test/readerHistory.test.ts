@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ReaderHistory } from '../readerHistory';
+import { InMemoryMemento } from './inMemoryMemento';
+
+suite('ReaderHistory Test Suite', () => {
+    const a = vscode.Uri.file('/docs/a.md');
+    const b = vscode.Uri.file('/docs/b.md');
+    const c = vscode.Uri.file('/docs/c.md');
+
+    let state: InMemoryMemento;
+    let history: ReaderHistory;
+
+    setup(() => {
+        state = new InMemoryMemento();
+        history = new ReaderHistory(state);
+    });
+
+    teardown(() => {
+        history.dispose();
+    });
+
+    test('starts empty', () => {
+        assert.strictEqual(history.current, undefined);
+        assert.strictEqual(history.canGoBack, false);
+        assert.strictEqual(history.canGoForward, false);
+        assert.strictEqual(history.back(), undefined);
+    });
+
+    test('back and forward move through recorded documents', () => {
+        history.record(a);
+        history.record(b);
+        history.record(c);
+
+        assert.strictEqual(history.back()?.toString(), b.toString());
+        assert.strictEqual(history.back()?.toString(), a.toString());
+        assert.strictEqual(history.canGoBack, false);
+        assert.strictEqual(history.forward()?.toString(), b.toString());
+        assert.strictEqual(history.current?.toString(), b.toString());
+    });
+
+    test('recording the current document is a no-op', () => {
+        history.record(a);
+        history.record(b);
+        history.back();
+        history.record(a);
+
+        assert.strictEqual(history.canGoForward, true);
+    });
+
+    test('recording a new document drops forward entries', () => {
+        history.record(a);
+        history.record(b);
+        history.back();
+        history.record(c);
+
+        assert.strictEqual(history.canGoForward, false);
+        assert.strictEqual(history.back()?.toString(), a.toString());
+    });
+
+    test('recent lists unique documents, most recent first', () => {
+        history.record(a);
+        history.record(b);
+        history.record(a);
+
+        assert.deepStrictEqual(
+            history.recent.map(uri => uri.toString()),
+            [a.toString(), b.toString()]
+        );
+    });
+
+    test('history is restored from workspace state', () => {
+        history.record(a);
+        history.record(b);
+        history.back();
+
+        const restored = new ReaderHistory(state);
+        assert.strictEqual(restored.current?.toString(), a.toString());
+        assert.strictEqual(restored.canGoForward, true);
+        restored.dispose();
+    });
+
+    test('onDidChange fires when navigating', () => {
+        let count = 0;
+        const disposable = history.onDidChange(() => count++);
+
+        history.record(a);
+        history.record(b);
+        history.back();
+
+        disposable.dispose();
+        assert.strictEqual(count, 3);
+    });
+
+    test('peek returns the neighbouring document without moving', () => {
+        history.record(a);
+        history.record(b);
+
+        assert.strictEqual(history.peek('back')?.toString(), a.toString());
+        assert.strictEqual(history.peek('forward'), undefined);
+        assert.strictEqual(history.current?.toString(), b.toString());
+    });
+
+    test('remove drops a document and keeps the position', () => {
+        history.record(a);
+        history.record(b);
+        history.record(c);
+        history.remove(b);
+
+        assert.strictEqual(history.current?.toString(), c.toString());
+        assert.strictEqual(history.peek('back')?.toString(), a.toString());
+    });
+
+    test('removing the current document moves to the entry before it', () => {
+        history.record(a);
+        history.record(b);
+        history.record(c);
+        history.back();
+        history.remove(b);
+
+        assert.strictEqual(history.current?.toString(), a.toString());
+        assert.strictEqual(history.peek('forward')?.toString(), c.toString());
+    });
+
+    test('remove merges entries left next to each other', () => {
+        history.record(a);
+        history.record(b);
+        history.record(a);
+        history.remove(b);
+
+        assert.strictEqual(history.current?.toString(), a.toString());
+        assert.strictEqual(history.canGoBack, false);
+    });
+});
@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { StatusBarController, StatusBarHost, StatusDiffs, StatusPreviews, StatusSettings } from '../statusBarController';
+import { ConfigChangeEvent, ExtensionConfig, SettingOverride } from '../types';
+import { testConfig } from './testConfig';
+
+/**
+ * Settings and overrides set by the tests
+ */
+class FakeSettings implements StatusSettings {
+    readonly changed = new vscode.EventEmitter<ConfigChangeEvent>();
+    readonly onConfigChanged = this.changed.event;
+    config: ExtensionConfig = testConfig();
+    overrides: SettingOverride[] = [];
+
+    getConfigFor(): ExtensionConfig {
+        return this.config;
+    }
+
+    getOverrides(): SettingOverride[] {
+        return this.overrides;
+    }
+}
+
+/**
+ * Diff state set by the tests
+ */
+class FakeDiffs implements StatusDiffs {
+    diffActive = false;
+
+    isDiffEditor(): boolean {
+        return this.diffActive;
+    }
+
+    isDocumentInDiffView(): boolean {
+        return false;
+    }
+}
+
+/**
+ * Active source document set by the tests
+ */
+class FakePreviews implements StatusPreviews {
+    activeUri: vscode.Uri | undefined = vscode.Uri.file('/docs/guide.md');
+
+    getActiveSourceUri(): vscode.Uri | undefined {
+        return this.activeUri;
+    }
+
+    isPreviewOpen(): boolean {
+        return false;
+    }
+}
+
+/**
+ * Keeps the status bar item for the tests to read, and registers no command
+ * so it does not clash with the one the extension registered
+ */
+class FakeStatusBarHost implements StatusBarHost {
+    readonly onDidChangeActiveTextEditor = new vscode.EventEmitter<vscode.TextEditor | undefined>().event;
+    readonly onDidChangeTabs = new vscode.EventEmitter<vscode.TabChangeEvent>().event;
+    readonly onDidChangeTabGroups = new vscode.EventEmitter<vscode.TabGroupChangeEvent>().event;
+    item: vscode.StatusBarItem | undefined;
+
+    createStatusBarItem(id: string, alignment: vscode.StatusBarAlignment, priority: number): vscode.StatusBarItem {
+        this.item = vscode.window.createStatusBarItem(id, alignment, priority);
+        return this.item;
+    }
+
+    registerCommand(): vscode.Disposable {
+        return new vscode.Disposable(() => undefined);
+    }
+}
+
+suite('StatusBarController Test Suite', () => {
+    let settings: FakeSettings;
+    let diffs: FakeDiffs;
+    let host: FakeStatusBarHost;
+    let controller: StatusBarController;
+
+    /** Apply the current fakes and return the item's text */
+    function refresh(): string | undefined {
+        controller.update();
+        return host.item?.text;
+    }
+
+    setup(() => {
+        settings = new FakeSettings();
+        diffs = new FakeDiffs();
+        host = new FakeStatusBarHost();
+        controller = new StatusBarController(settings, diffs, new FakePreviews(), host);
+    });
+
+    teardown(() => {
+        controller.dispose();
+        settings.changed.dispose();
+    });
+
+    test('shows that auto preview is on with the layout', () => {
+        assert.strictEqual(refresh(), '$(open-preview) Auto Preview');
+        assert.match(String(host.item?.tooltip), /sameGroup layout/);
+    });
+
+    test('shows when auto preview is disabled', () => {
+        settings.config = testConfig({ enabled: false });
+
+        assert.strictEqual(refresh(), '$(circle-slash) Auto Preview');
+    });
+
+    test('shows when auto preview is suppressed for a diff', () => {
+        diffs.diffActive = true;
+
+        assert.strictEqual(refresh(), '$(diff) Auto Preview');
+    });
+
+    test('a diff does not suppress auto preview when openOnGitDiff is on', () => {
+        settings.config = testConfig({ openOnGitDiff: true });
+        diffs.diffActive = true;
+
+        assert.strictEqual(refresh(), '$(open-preview) Auto Preview');
+    });
+
+    test('shows reader mode', () => {
+        settings.config = testConfig({ previewOnlyMode: true });
+
+        assert.strictEqual(refresh(), '$(book) Reader');
+    });
+
+    test('pins overridden settings and lists them in the tooltip', () => {
+        settings.config = testConfig({ previewOnlyMode: true });
+        settings.overrides = [{ setting: 'previewOnlyMode', scope: 'session', value: true }];
+
+        assert.strictEqual(refresh(), '$(book) Reader $(pinned)');
+        assert.match(String(host.item?.tooltip), /Overridden: previewOnlyMode = true \(session\)$/);
+    });
+
+    test('refreshes when the settings change', () => {
+        settings.config = testConfig({ enabled: false });
+        settings.changed.fire({ config: settings.config, affectedFolders: [] });
+
+        assert.strictEqual(host.item?.text, '$(circle-slash) Auto Preview');
+    });
+});
@@ -1,6 +1,10 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { TabTracker } from '../tabTracker';
+import { StoredPreview, TabTracker, matchStoredPreviews, pickPreviewsToEvict } from '../tabTracker';
+import { TrackedPreview } from '../types';
+import { ProviderRegistry } from '../providerRegistry';
+import { InMemoryMemento } from './inMemoryMemento';
+import { MARKDOWN_PREVIEW_VIEW_TYPE, fakeGroup, fakeTab } from './fakeTabs';
 
 suite('TabTracker Test Suite', () => {
     let tabTracker: TabTracker;
@@ -13,22 +17,6 @@ suite('TabTracker Test Suite', () => {
         tabTracker.dispose();
     });
 
-    test('getExpectedPreviewLabel generates correct label', () => {
-        const testCases = [
-            { path: '/path/to/README.md', expected: 'Preview README.md' },
-            { path: '/path/to/CHANGELOG.md', expected: 'Preview CHANGELOG.md' },
-            { path: '/some/file.markdown', expected: 'Preview file.markdown' },
-            { path: '/docs/guide.adoc', expected: 'Preview guide.adoc' },
-            { path: '/docs/index.rst', expected: 'Preview index.rst' },
-        ];
-
-        for (const tc of testCases) {
-            const uri = vscode.Uri.file(tc.path);
-            const result = tabTracker.getExpectedPreviewLabel(uri);
-            assert.strictEqual(result, tc.expected, `Failed for ${tc.path}`);
-        }
-    });
-
     test('isSupported returns true for markdown files', () => {
         const markdownExtensions = ['.md', '.markdown', '.mdown', '.mkd'];
 
@@ -111,7 +99,7 @@ suite('TabTracker Test Suite', () => {
 
     test('closePreviewForFile handles non-existent preview gracefully', async () => {
         const uri = vscode.Uri.file('/path/to/nonexistent.md');
-        const result = await tabTracker.closePreviewForFile(uri);
+        const result = await tabTracker.closePreviewForFile(uri, 'test');
         assert.strictEqual(result, false);
     });
 
@@ -130,6 +118,431 @@ suite('TabTracker Test Suite', () => {
     });
 });
 
+suite('TabTracker Registry Tests', () => {
+    let tabTracker: TabTracker;
+
+    setup(() => {
+        tabTracker = new TabTracker();
+    });
+
+    teardown(() => {
+        tabTracker.dispose();
+    });
+
+    test('previews with the same basename are tracked separately', () => {
+        const docsUri = vscode.Uri.file('/repo/docs/README.md');
+        const apiUri = vscode.Uri.file('/repo/api/README.md');
+        const docsTab = fakeTab('Preview README.md');
+        const apiTab = fakeTab('Preview README.md');
+
+        tabTracker.track({ sourceUri: docsUri, languageId: 'markdown', openedAt: Date.now(), mode: 'preview', tab: docsTab });
+        tabTracker.track({ sourceUri: apiUri, languageId: 'markdown', openedAt: Date.now(), mode: 'preview', tab: apiTab });
+
+        assert.strictEqual(tabTracker.trackedPreviews.length, 2);
+        assert.strictEqual(tabTracker.findByTab(docsTab)?.sourceUri.toString(), docsUri.toString());
+        assert.strictEqual(tabTracker.findByTab(apiTab)?.sourceUri.toString(), apiUri.toString());
+    });
+
+    test('tracking a tab for a new source replaces its previous owner', () => {
+        const tab = fakeTab('Preview a.md');
+        const first = vscode.Uri.file('/repo/a.md');
+        const second = vscode.Uri.file('/repo/b.md');
+
+        tabTracker.track({ sourceUri: first, languageId: 'markdown', openedAt: Date.now(), mode: 'preview', tab });
+        tabTracker.track({ sourceUri: second, languageId: 'markdown', openedAt: Date.now(), mode: 'preview', tab });
+
+        assert.strictEqual(tabTracker.trackedPreviews.length, 1);
+        assert.strictEqual(tabTracker.findByTab(tab)?.sourceUri.toString(), second.toString());
+    });
+
+    test('tracking a new preview for a source drops the previous one', () => {
+        const uri = vscode.Uri.file('/repo/a.md');
+        const oldTab = fakeTab('Preview a.md');
+        const newTab = fakeTab('Preview a.md');
+        const untracked: vscode.Tab[] = [];
+        const listener = tabTracker.onDidUntrackPreview(preview => untracked.push(preview.tab));
+
+        tabTracker.track({ sourceUri: uri, languageId: 'markdown', openedAt: Date.now(), mode: 'preview', tab: oldTab });
+        tabTracker.track({ sourceUri: uri, languageId: 'markdown', openedAt: Date.now(), mode: 'preview', tab: newTab });
+        listener.dispose();
+
+        assert.deepStrictEqual(untracked, [oldTab]);
+        assert.strictEqual(tabTracker.findByTab(oldTab), undefined);
+        assert.strictEqual(tabTracker.findByTab(newTab)?.sourceUri.toString(), uri.toString());
+    });
+
+    test('untrack removes the pairing', () => {
+        const uri = vscode.Uri.file('/repo/guide.md');
+        const tab = fakeTab('Preview guide.md');
+
+        tabTracker.track({ sourceUri: uri, languageId: 'markdown', openedAt: Date.now(), mode: 'preview', tab });
+        tabTracker.untrack(uri);
+
+        assert.strictEqual(tabTracker.findByTab(tab), undefined);
+    });
+
+    test('lookups ignore tracked tabs that no longer exist', () => {
+        const uri = vscode.Uri.file('/repo/closed.md');
+        const tab = fakeTab('Preview closed.md');
+
+        tabTracker.track({ sourceUri: uri, languageId: 'markdown', openedAt: Date.now(), mode: 'preview', tab });
+
+        assert.strictEqual(tabTracker.findPreviewTab(uri), undefined);
+        assert.strictEqual(tabTracker.isPreviewOpen(uri), false);
+        assert.strictEqual(tabTracker.trackedPreviews.length, 0);
+    });
+
+    test('overlapping opens run one at a time', async () => {
+        const events: string[] = [];
+        const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+        // Unregistered language: no tab is waited for after each open
+        const first = tabTracker.openAndTrack(vscode.Uri.file('/repo/a.txt'), 'plaintext', async () => {
+            events.push('open a');
+            await delay(30);
+            events.push('a opened');
+        });
+        const second = tabTracker.openAndTrack(vscode.Uri.file('/repo/b.txt'), 'plaintext', async () => {
+            events.push('open b');
+        });
+        await Promise.all([first, second]);
+
+        assert.deepStrictEqual(events, ['open a', 'a opened', 'open b']);
+    });
+
+    test('a failed open does not block the next one', async () => {
+        const failed = tabTracker.openAndTrack(vscode.Uri.file('/repo/a.txt'), 'plaintext', () => Promise.reject(new Error('no command')));
+        const next = tabTracker.openAndTrack(vscode.Uri.file('/repo/b.txt'), 'plaintext', () => Promise.resolve());
+
+        await assert.rejects(failed);
+        assert.strictEqual(await next, undefined);
+    });
+});
+
+suite('TabTracker Locale Tests', () => {
+    let tabTracker: TabTracker;
+
+    const markdownViewType = MARKDOWN_PREVIEW_VIEW_TYPE;
+    const sourceGroup = fakeGroup(vscode.ViewColumn.One);
+    const sideGroup = fakeGroup(vscode.ViewColumn.Two);
+
+    setup(() => {
+        tabTracker = new TabTracker();
+    });
+
+    teardown(() => {
+        tabTracker.dispose();
+    });
+
+    test('isPreviewTab identifies previews by viewType regardless of label', () => {
+        const labels = ['Preview README.md', 'Vorschau README.md', 'プレビュー README.md', 'README.md'];
+
+        for (const label of labels) {
+            const tab = fakeTab(label, markdownViewType, sideGroup);
+            assert.strictEqual(tabTracker.isPreviewTab(tab), true, `Should detect "${label}"`);
+        }
+    });
+
+    test('isPreviewTab ignores other webviews labelled "Preview"', () => {
+        const tab = fakeTab('Preview README.md', 'mainThreadWebview-someOtherExtension.view', sideGroup);
+        assert.strictEqual(tabTracker.isPreviewTab(tab), false);
+    });
+
+    test('isPreviewTab accepts tabs owned by a tracked preview', () => {
+        const tab = fakeTab('Aperçu index.qmd', 'mainThreadWebview-quarto.preview', sideGroup);
+        tabTracker.track({
+            sourceUri: vscode.Uri.file('/repo/index.qmd'),
+            languageId: 'quarto',
+            openedAt: Date.now(),
+            mode: 'preview',
+            tab
+        });
+
+        assert.strictEqual(tabTracker.isPreviewTab(tab), true);
+    });
+
+    test('selectPreviewTab picks the new preview tab whatever its label', () => {
+        const existing = fakeTab('Vorschau andere.md', markdownViewType, sideGroup);
+        const created = fakeTab('Vorschau README.md', markdownViewType, sideGroup);
+        const before = new Map([[existing, existing.label]]);
+
+        const result = tabTracker.selectPreviewTab(
+            [existing, created],
+            before,
+            'markdown.preview',
+            { originColumn: vscode.ViewColumn.One, toSide: true }
+        );
+
+        assert.strictEqual(result, created);
+    });
+
+    test('selectPreviewTab prefers the group targeted by the open action', () => {
+        const inSource = fakeTab('プレビュー README.md', markdownViewType, sourceGroup);
+        const beside = fakeTab('プレビュー README.md', markdownViewType, sideGroup);
+        const before = new Map<vscode.Tab, string>();
+
+        const toSide = tabTracker.selectPreviewTab(
+            [inSource, beside],
+            before,
+            'markdown.preview',
+            { originColumn: vscode.ViewColumn.One, toSide: true }
+        );
+        const sameGroup = tabTracker.selectPreviewTab(
+            [inSource, beside],
+            before,
+            'markdown.preview',
+            { originColumn: vscode.ViewColumn.One, toSide: false }
+        );
+
+        assert.strictEqual(toSide, beside);
+        assert.strictEqual(sameGroup, inSource);
+    });
+
+    test('selectPreviewTab detects a preview that switched documents', () => {
+        const tab = fakeTab('Vorschau b.md', markdownViewType, sideGroup);
+        const before = new Map([[tab, 'Vorschau a.md']]);
+
+        const result = tabTracker.selectPreviewTab(
+            [tab],
+            before,
+            'markdown.preview',
+            { originColumn: vscode.ViewColumn.One, toSide: true }
+        );
+
+        assert.strictEqual(result, tab);
+    });
+
+    test('selectPreviewTab returns undefined when no preview changed', () => {
+        const tab = fakeTab('Vorschau a.md', markdownViewType, sideGroup);
+        const other = fakeTab('Vorschau', 'mainThreadWebview-other.view', sideGroup);
+        const before = new Map([[tab, tab.label]]);
+
+        const result = tabTracker.selectPreviewTab(
+            [tab, other],
+            before,
+            'markdown.preview',
+            { originColumn: vscode.ViewColumn.One, toSide: true }
+        );
+
+        assert.strictEqual(result, undefined);
+    });
+});
+
+suite('TabTracker Persistence Tests', () => {
+    let state: InMemoryMemento;
+    let tabTracker: TabTracker;
+
+    setup(() => {
+        state = new InMemoryMemento();
+        tabTracker = new TabTracker(new ProviderRegistry(), state);
+    });
+
+    teardown(() => {
+        tabTracker.dispose();
+    });
+
+    test('tracked previews are saved to workspace state', async () => {
+        const uri = vscode.Uri.file('/repo/guide.md');
+        tabTracker.track({
+            sourceUri: uri,
+            languageId: 'markdown',
+            openedAt: 42,
+            mode: 'reader',
+            tab: fakeTab('Preview guide.md')
+        });
+        await tabTracker.flush();
+
+        const stored = state.get<{ sourceUri: string; mode: string; openedAt: number; label: string }[]>(
+            'previewMarkdown.trackedPreviews'
+        );
+        assert.ok(stored);
+        assert.strictEqual(stored.length, 1);
+        assert.strictEqual(stored[0].sourceUri, uri.toString());
+        assert.strictEqual(stored[0].mode, 'reader');
+        assert.strictEqual(stored[0].openedAt, 42);
+        assert.strictEqual(stored[0].label, 'Preview guide.md');
+    });
+
+    test('untrack removes the saved pairing', async () => {
+        const uri = vscode.Uri.file('/repo/guide.md');
+        tabTracker.track({
+            sourceUri: uri,
+            languageId: 'markdown',
+            openedAt: Date.now(),
+            mode: 'preview',
+            tab: fakeTab('Preview guide.md')
+        });
+        tabTracker.untrack(uri);
+        await tabTracker.flush();
+
+        assert.deepStrictEqual(state.get('previewMarkdown.trackedPreviews'), []);
+    });
+
+    test('restore drops pairings whose preview tab was not restored', async () => {
+        await state.update('previewMarkdown.trackedPreviews', [{
+            sourceUri: vscode.Uri.file('/repo/missing.md').toString(),
+            languageId: 'markdown',
+            openedAt: Date.now(),
+            mode: 'preview',
+            viewType: 'mainThreadWebview-markdown.preview',
+            label: 'Preview of a tab that does not exist',
+            viewColumn: vscode.ViewColumn.Nine
+        }]);
+
+        assert.strictEqual(tabTracker.restore(), 0);
+        await tabTracker.flush();
+        assert.deepStrictEqual(state.get('previewMarkdown.trackedPreviews'), []);
+    });
+
+    test('mostRecentPreview is the last opened or focused preview', () => {
+        const base = { languageId: 'markdown', mode: 'preview' as const, tab: fakeTab('Preview') };
+        tabTracker.track({ ...base, sourceUri: vscode.Uri.file('/repo/a.md'), openedAt: 1, lastActiveAt: 30 });
+        tabTracker.track({ ...base, sourceUri: vscode.Uri.file('/repo/b.md'), openedAt: 20, tab: fakeTab('Preview b') });
+
+        assert.strictEqual(tabTracker.mostRecentPreview?.sourceUri.path, '/repo/a.md');
+    });
+
+    test('writes are batched and skipped when nothing changed', async () => {
+        let writes = 0;
+        const counting: vscode.Memento = {
+            keys: () => state.keys(),
+            get: <T>(key: string, defaultValue?: T) => state.get(key, defaultValue),
+            update: (key: string, value: unknown) => {
+                writes++;
+                return state.update(key, value);
+            }
+        };
+        const tracker = new TabTracker(new ProviderRegistry(), counting);
+        const uri = vscode.Uri.file('/repo/guide.md');
+        const preview = { sourceUri: uri, languageId: 'markdown', openedAt: 1, mode: 'preview' as const, tab: fakeTab('Preview guide.md') };
+
+        tracker.track(preview);
+        tracker.track({ ...preview, openedAt: 2 });
+        await tracker.flush();
+        await tracker.flush();
+        tracker.dispose();
+
+        assert.strictEqual(writes, 1);
+    });
+
+    test('a failed write does not reject', async () => {
+        const failing: vscode.Memento = {
+            keys: () => [],
+            get: <T>(_key: string, defaultValue?: T) => defaultValue,
+            update: () => Promise.reject(new Error('storage unavailable'))
+        };
+        const tracker = new TabTracker(new ProviderRegistry(), failing);
+        tracker.track({ sourceUri: vscode.Uri.file('/repo/a.md'), languageId: 'markdown', openedAt: 1, mode: 'preview', tab: fakeTab('Preview a.md') });
+
+        await tracker.flush();
+        tracker.dispose();
+    });
+
+    test('restore without workspace state is a no-op', () => {
+        const tracker = new TabTracker();
+        assert.strictEqual(tracker.restore(), 0);
+        tracker.dispose();
+    });
+});
+
+suite('Preview Restore Matching Tests', () => {
+    const sideGroup = fakeGroup(vscode.ViewColumn.Two);
+    const otherGroup = fakeGroup(vscode.ViewColumn.Three);
+
+    function record(path: string, viewColumn: vscode.ViewColumn, label = 'Preview README.md'): StoredPreview {
+        return {
+            sourceUri: vscode.Uri.file(path).toString(),
+            languageId: 'markdown',
+            openedAt: 0,
+            mode: 'preview',
+            viewType: MARKDOWN_PREVIEW_VIEW_TYPE,
+            label,
+            viewColumn
+        };
+    }
+
+    test('a unique label is matched, even in another group', () => {
+        const stored = record('/repo/guide.md', vscode.ViewColumn.Two, 'Preview guide.md');
+        const tab = fakeTab('Preview guide.md', MARKDOWN_PREVIEW_VIEW_TYPE, otherGroup);
+
+        assert.strictEqual(matchStoredPreviews([stored], [tab]).get(stored), tab);
+    });
+
+    test('same-labelled previews are matched by their group', () => {
+        const docs = record('/repo/docs/README.md', vscode.ViewColumn.Two);
+        const api = record('/repo/api/README.md', vscode.ViewColumn.Three);
+        const apiTab = fakeTab('Preview README.md', MARKDOWN_PREVIEW_VIEW_TYPE, otherGroup);
+        const docsTab = fakeTab('Preview README.md', MARKDOWN_PREVIEW_VIEW_TYPE, sideGroup);
+
+        const matched = matchStoredPreviews([docs, api], [apiTab, docsTab]);
+        assert.strictEqual(matched.get(docs), docsTab);
+        assert.strictEqual(matched.get(api), apiTab);
+    });
+
+    test('same-labelled previews in one group are not guessed', () => {
+        const docs = record('/repo/docs/README.md', vscode.ViewColumn.Two);
+        const api = record('/repo/api/README.md', vscode.ViewColumn.Two);
+        const tabs = [
+            fakeTab('Preview README.md', MARKDOWN_PREVIEW_VIEW_TYPE, sideGroup),
+            fakeTab('Preview README.md', MARKDOWN_PREVIEW_VIEW_TYPE, sideGroup)
+        ];
+
+        assert.strictEqual(matchStoredPreviews([docs, api], tabs).size, 0);
+    });
+
+    test('a moved tab is not given to one of several same-labelled previews', () => {
+        const docs = record('/repo/docs/README.md', vscode.ViewColumn.Two);
+        const api = record('/repo/api/README.md', vscode.ViewColumn.Three);
+        const moved = fakeTab('Preview README.md', MARKDOWN_PREVIEW_VIEW_TYPE, fakeGroup(vscode.ViewColumn.Four));
+
+        assert.strictEqual(matchStoredPreviews([docs, api], [moved]).size, 0);
+    });
+});
+
+suite('Preview Eviction Tests', () => {
+    function preview(name: string, lastActiveAt: number, manual = false): TrackedPreview {
+        return {
+            sourceUri: vscode.Uri.file(`/repo/${name}.md`),
+            languageId: 'markdown',
+            openedAt: 0,
+            mode: 'preview',
+            lastActiveAt,
+            manual,
+            tab: fakeTab(`Preview ${name}.md`)
+        };
+    }
+
+    const names = (previews: TrackedPreview[]): string[] =>
+        previews.map(p => p.sourceUri.path.replace('/repo/', ''));
+
+    test('nothing is evicted within the limit or without one', () => {
+        const previews = [preview('a', 1), preview('b', 2)];
+
+        assert.deepStrictEqual(pickPreviewsToEvict(previews, 2), []);
+        assert.deepStrictEqual(pickPreviewsToEvict(previews, 0), []);
+    });
+
+    test('least recently viewed previews are evicted first', () => {
+        const previews = [preview('a', 30), preview('b', 10), preview('c', 20)];
+
+        assert.deepStrictEqual(names(pickPreviewsToEvict(previews, 1)), ['b.md', 'c.md']);
+    });
+
+    test('manual and kept previews are never evicted', () => {
+        const previews = [preview('manual', 1, true), preview('new', 2), preview('old', 3)];
+
+        const evicted = pickPreviewsToEvict(previews, 1, [vscode.Uri.file('/repo/new.md')]);
+        assert.deepStrictEqual(names(evicted), ['old.md']);
+    });
+
+    test('openedAt is used when a preview was never activated', () => {
+        const never = { ...preview('never', 0), lastActiveAt: undefined, openedAt: 5 };
+        const previews = [preview('recent', 10), never];
+
+        assert.deepStrictEqual(names(pickPreviewsToEvict(previews, 1)), ['never.md']);
+    });
+});
+
 suite('TabTracker Integration Tests', () => {
     let tabTracker: TabTracker;
 
@@ -146,9 +559,9 @@ suite('TabTracker Integration Tests', () => {
 
         // Call multiple times rapidly
         const results = await Promise.all([
-            tabTracker.closePreviewForFile(uri),
-            tabTracker.closePreviewForFile(uri),
-            tabTracker.closePreviewForFile(uri),
+            tabTracker.closePreviewForFile(uri, 'test'),
+            tabTracker.closePreviewForFile(uri, 'test'),
+            tabTracker.closePreviewForFile(uri, 'test'),
         ]);
 
         // At most one should have been processed (debouncing)
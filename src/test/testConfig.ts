@@ -0,0 +1,30 @@
+import { ExtensionConfig } from '../types';
+
+/**
+ * Settings with every threshold and rule off; untitled documents are previewed
+ */
+export function testConfig(overrides: Partial<ExtensionConfig> = {}): ExtensionConfig {
+    return {
+        enabled: true,
+        openPreviewToSide: false,
+        layout: 'sameGroup',
+        previewColumn: 2,
+        autoClosePreview: true,
+        openOnGitDiff: false,
+        diffPreviewMode: 'single',
+        previewOnlyMode: false,
+        followActiveEditor: false,
+        maxOpenPreviews: 0,
+        maxFileSizeKB: 0,
+        maxLineCount: 0,
+        preserveFocus: false,
+        languages: ['markdown'],
+        schemes: ['file', 'untitled'],
+        include: [],
+        exclude: [],
+        providers: {},
+        logLevel: 'info',
+        toggleTarget: 'session',
+        ...overrides
+    };
+}
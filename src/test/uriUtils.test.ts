@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { uriBasename, uriDisplayPath, uriExtname } from '../uriUtils';
+
+suite('URI Utils Test Suite', () => {
+    test('uriBasename works for file and non-file URIs', () => {
+        assert.strictEqual(uriBasename(vscode.Uri.file('/repo/docs/README.md')), 'README.md');
+        assert.strictEqual(uriBasename(vscode.Uri.parse('untitled:Untitled-1')), 'Untitled-1');
+        assert.strictEqual(uriBasename(vscode.Uri.parse('git:/repo/docs/guide.md?%7B%22ref%22%3A%22HEAD%22%7D')), 'guide.md');
+        assert.strictEqual(uriBasename(vscode.Uri.parse('vscode-vfs://github/org/repo/index.md')), 'index.md');
+    });
+
+    test('uriExtname ignores query and fragment', () => {
+        assert.strictEqual(uriExtname(vscode.Uri.parse('git:/repo/guide.md?ref=HEAD')), '.md');
+        assert.strictEqual(uriExtname(vscode.Uri.parse('untitled:Untitled-1')), '');
+        assert.strictEqual(uriExtname(vscode.Uri.file('/repo/docs/manual.adoc')), '.adoc');
+    });
+
+    test('uriDisplayPath uses the file system path only for files', () => {
+        const file = vscode.Uri.file('/repo/docs/README.md');
+        assert.strictEqual(uriDisplayPath(file), file.fsPath);
+        const untitled = vscode.Uri.parse('untitled:Untitled-1');
+        assert.strictEqual(uriDisplayPath(untitled), untitled.toString(true));
+    });
+});
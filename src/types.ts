@@ -6,65 +6,249 @@ import * as vscode from 'vscode';
 export interface ExtensionConfig {
     /** Enable/disable the extension */
     enabled: boolean;
-    /** Open preview to the side (true) or in same editor group (false) */
+    /** Open preview to the side (true) or in same editor group (false); superseded by layout */
     openPreviewToSide: boolean;
+    /** Where previews are opened; derived from openPreviewToSide when not set */
+    layout: PreviewLayout;
+    /** View column used by the fixedColumn layout (1-8) */
+    previewColumn: number;
     /** Automatically close preview when markdown file is closed */
     autoClosePreview: boolean;
     /** Open preview when viewing git diff */
     openOnGitDiff: boolean;
+    /** How diffs are previewed when openOnGitDiff is on */
+    diffPreviewMode: DiffPreviewMode;
     /** Show only the preview panel, close the source editor */
     previewOnlyMode: boolean;
+    /** Keep a single preview that follows the active editor */
+    followActiveEditor: boolean;
+    /** Most auto-opened previews kept open at once (0 = no limit) */
+    maxOpenPreviews: number;
+    /** Ask before auto-previewing documents larger than this, in KB (0 = no limit) */
+    maxFileSizeKB: number;
+    /** Ask before auto-previewing documents with more lines than this (0 = no limit) */
+    maxLineCount: number;
     /** Keep focus in the source editor after opening preview */
     preserveFocus: boolean;
-    /** Comma-separated list of enabled languages */
-    languages: string;
+    /** Language IDs that are auto-previewed */
+    languages: string[];
+    /** URI schemes of documents that are auto-previewed, e.g. "file" or "untitled" */
+    schemes: string[];
+    /** Glob rules selecting which files are auto-previewed */
+    include: PathRule[];
+    /** Glob rules selecting which files are never auto-previewed */
+    exclude: PathRule[];
+    /** Additional or overridden preview providers, keyed by language ID */
+    providers: Record<string, ProviderSetting>;
+    /** Most verbose level written to the output channel */
+    logLevel: LogLevel;
+    /** Where the toggle commands store their change by default */
+    toggleTarget: ToggleTarget;
 }
 
 /**
- * Supported language identifiers and their corresponding preview commands
+ * Payload of ConfigManager.onConfigChanged
  */
-export type SupportedLanguage = 'markdown' | 'asciidoc' | 'restructuredtext';
+export interface ConfigChangeEvent {
+    /** New window-level configuration */
+    config: ExtensionConfig;
+    /** Workspace folders whose effective configuration changed */
+    affectedFolders: readonly vscode.WorkspaceFolder[];
+}
+
+/**
+ * Where a preview is opened relative to its source:
+ * - side: in the editor group beside the source
+ * - sameGroup: in the source's editor group
+ * - below: in an editor group below the source
+ * - fixedColumn: always in the view column of previewMarkdown.previewColumn
+ * - dedicatedGroup: in one preview group shared by all previews
+ */
+export type PreviewLayout = 'side' | 'sameGroup' | 'below' | 'fixedColumn' | 'dedicatedGroup';
+
+/**
+ * Layouts in the order the "Cycle Preview Layout" command steps through them
+ */
+export const PREVIEW_LAYOUTS: readonly PreviewLayout[] = ['side', 'sameGroup', 'below', 'fixedColumn', 'dedicatedGroup'];
+
+/**
+ * How a diff is previewed when openOnGitDiff is enabled:
+ * - single: one preview of the document that triggered it
+ * - sideBySide: previews of both the original and the modified document
+ * - redline: one view of the modified document with changes highlighted
+ */
+export type DiffPreviewMode = 'single' | 'sideBySide' | 'redline';
+
+/**
+ * Verbosity of the extension's output channel, from silent to most detailed
+ */
+export type LogLevel = 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+/**
+ * Where a toggle command stores its change:
+ * - session: in memory until the window is closed or reloaded
+ * - workspace: in the workspace settings
+ * - global: in the user settings
+ */
+export type ToggleTarget = 'session' | 'workspace' | 'global';
+
+/**
+ * Settings changed by the toggle commands
+ */
+export type ToggleSetting = 'enabled' | 'previewOnlyMode' | 'layout';
+
+/**
+ * A toggle setting whose value differs from the user settings
+ * because of a session or workspace override
+ */
+export interface SettingOverride {
+    setting: ToggleSetting;
+    scope: 'session' | 'workspace';
+    value: boolean | PreviewLayout;
+}
+
+/**
+ * Preview directive written in a document itself, e.g. `preview: reader` in front matter:
+ * - reader: open the preview in preview-only mode
+ * - side: open the preview beside the source, whatever the layout setting
+ * - off: never auto-preview the document
+ */
+export type PreviewDirective = 'reader' | 'side' | 'off';
+
+/**
+ * Action taken for a document matched by an include/exclude rule
+ */
+export type PathRuleAction = 'preview' | 'skip' | 'reader';
+
+/**
+ * Glob rule evaluated against a workspace-relative path.
+ * A plain string uses the default action of the list it appears in.
+ */
+export type PathRule = string | {
+    /** Glob pattern, e.g. "docs/**" */
+    pattern: string;
+    /** Action to take when the pattern matches */
+    action?: PathRuleAction;
+};
+
+/**
+ * Language identifier of a previewable document.
+ * The built-in providers cover markdown, asciidoc and restructuredtext;
+ * others are added through the previewMarkdown.providers setting.
+ */
+export type SupportedLanguage = string;
 
 /**
- * Map of language IDs to their preview commands
+ * Commands that open a preview for a document URI
  */
-export const PREVIEW_COMMANDS: Record<SupportedLanguage, { toSide: string; sameGroup: string }> = {
-    'markdown': {
-        toSide: 'markdown.showPreviewToSide',
-        sameGroup: 'markdown.showPreview'
+export interface PreviewCommands {
+    /** Opens the preview in a new editor group beside the source */
+    toSide: string;
+    /** Opens the preview in the active editor group */
+    sameGroup: string;
+}
+
+/**
+ * Describes how documents of one language are previewed
+ */
+export interface PreviewProvider {
+    /** Language ID of the source documents */
+    languageId: SupportedLanguage;
+    /** File extensions (lowercase, with leading dot) mapped to this language */
+    extensions: string[];
+    /** Commands that open the preview */
+    commands: PreviewCommands;
+    /** Webview viewType of the preview panel */
+    viewType: string;
+}
+
+/**
+ * Shape of one entry of the previewMarkdown.providers setting.
+ * Omitted fields fall back to the built-in provider of the same language.
+ */
+export interface ProviderSetting {
+    extensions?: string[];
+    commands?: Partial<PreviewCommands>;
+    viewType?: string;
+}
+
+/**
+ * Whether the preview of a language can be opened in this window
+ */
+export interface ProviderCapability {
+    /** Language ID of the provider */
+    languageId: SupportedLanguage;
+    /** Whether the provider's preview commands exist or its known extension is installed */
+    available: boolean;
+    /** Installed extension known to provide the preview, if any */
+    extensionId?: string;
+}
+
+/**
+ * Providers available without any configuration
+ */
+export const BUILTIN_PROVIDERS: readonly PreviewProvider[] = [
+    {
+        languageId: 'markdown',
+        extensions: ['.md', '.markdown', '.mdown', '.mkd'],
+        commands: {
+            toSide: 'markdown.showPreviewToSide',
+            sameGroup: 'markdown.showPreview'
+        },
+        viewType: 'markdown.preview'
     },
-    'asciidoc': {
-        toSide: 'asciidoc.showPreviewToSide',
-        sameGroup: 'asciidoc.showPreview'
+    {
+        languageId: 'asciidoc',
+        extensions: ['.adoc', '.asciidoc'],
+        commands: {
+            toSide: 'asciidoc.showPreviewToSide',
+            sameGroup: 'asciidoc.showPreview'
+        },
+        viewType: 'asciidoc.preview'
     },
-    'restructuredtext': {
-        toSide: 'restructuredtext.showPreviewToSide',
-        sameGroup: 'restructuredtext.showPreview'
+    {
+        languageId: 'restructuredtext',
+        extensions: ['.rst', '.rest'],
+        commands: {
+            toSide: 'restructuredtext.showPreviewToSide',
+            sameGroup: 'restructuredtext.showPreview'
+        },
+        viewType: 'restructuredtext.preview'
     }
-};
+];
 
 /**
- * Map of language IDs to expected preview viewType patterns
+ * Where an open action is expected to put the preview tab
  */
-export const PREVIEW_VIEW_TYPES: Record<SupportedLanguage, string> = {
-    'markdown': 'markdown.preview',
-    'asciidoc': 'asciidoc.preview',
-    'restructuredtext': 'restructuredtext.preview'
-};
+export interface PreviewPlacement {
+    /** View column of the editor group that was active when the action ran */
+    originColumn: vscode.ViewColumn | undefined;
+    /** Whether the preview opens beside the origin group rather than in it */
+    toSide: boolean;
+}
 
 /**
- * File extensions mapped to language IDs
+ * How a tracked preview was opened:
+ * - preview: alongside its source editor (auto-closed with it)
+ * - reader: in preview-only mode, with the source editor closed
+ * - follow: the single preview that follows the active editor
  */
-export const FILE_EXTENSIONS: Record<string, SupportedLanguage> = {
-    '.md': 'markdown',
-    '.markdown': 'markdown',
-    '.mdown': 'markdown',
-    '.mkd': 'markdown',
-    '.adoc': 'asciidoc',
-    '.asciidoc': 'asciidoc',
-    '.rst': 'restructuredtext',
-    '.rest': 'restructuredtext'
-};
+export type PreviewMode = 'preview' | 'reader' | 'follow';
+
+/**
+ * Options for opening a preview on request (command or extension API).
+ * Omitted fields use the settings of the document.
+ */
+export interface OpenPreviewOptions {
+    /** Open alongside the source, or in preview-only mode */
+    mode?: PreviewMode;
+    /** Where to open the preview */
+    layout?: PreviewLayout;
+    /** Open beside the source (layout "side") or in its group (layout "sameGroup") */
+    toSide?: boolean;
+    /** Return focus to the source editor after opening */
+    preserveFocus?: boolean;
+}
 
 /**
  * Represents a tracked preview-source relationship
@@ -76,4 +260,36 @@ export interface TrackedPreview {
     languageId: SupportedLanguage;
     /** Timestamp when the preview was opened */
     openedAt: number;
+    /** How the preview was opened */
+    mode: PreviewMode;
+    /** Timestamp when the preview tab was last active (defaults to openedAt) */
+    lastActiveAt?: number;
+    /** Opened on request rather than automatically; never evicted */
+    manual?: boolean;
+    /** The preview tab showing the source document */
+    tab: vscode.Tab;
+}
+
+/**
+ * Whether a decision was about opening or closing a preview
+ */
+export type DecisionKind = 'open' | 'close';
+
+/**
+ * Result of an open/close decision
+ */
+export type DecisionOutcome = 'opened' | 'skipped' | 'closed' | 'kept' | 'failed';
+
+/**
+ * One recorded open/close decision and the reason for it
+ */
+export interface PreviewDecision {
+    /** Source document the decision was about */
+    uri: vscode.Uri;
+    kind: DecisionKind;
+    outcome: DecisionOutcome;
+    /** Human-readable reason, e.g. "the file is shown in a diff" */
+    reason: string;
+    /** Timestamp of the decision */
+    time: number;
 }
@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Path helpers that work for any URI scheme.
+ * `uri.fsPath` is only meaningful for `file:` URIs; for `untitled:`, `git:`
+ * or `vscode-vfs:` documents the URI path is used instead.
+ */
+
+/**
+ * Last segment of a URI's path, e.g. "README.md" or "Untitled-1"
+ */
+export function uriBasename(uri: vscode.Uri): string {
+    return path.posix.basename(uri.path) || uri.authority || uri.toString(true);
+}
+
+/**
+ * Extension of a URI's path including the dot, e.g. ".md"; empty if none
+ */
+export function uriExtname(uri: vscode.Uri): string {
+    return path.posix.extname(uri.path);
+}
+
+/**
+ * Human-readable location of a URI: the file system path for files,
+ * the full URI otherwise
+ */
+export function uriDisplayPath(uri: vscode.Uri): string {
+    return uri.scheme === 'file' ? uri.fsPath : uri.toString(true);
+}